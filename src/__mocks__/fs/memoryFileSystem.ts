@@ -0,0 +1,59 @@
+import * as path from 'path';
+import * as fs from 'fs/promises';
+
+interface MemoryFileSystemOptions {
+  // Folders that exist without files in them. Folders holding a file always exist
+  directories?: string[];
+  // Paths of files and directories are relative to root when set
+  root?: string;
+}
+
+// A small in-memory file system behind the fs/promises mock. Returns the live contents, so
+// tests can check what was written
+export function mockFileSystem(
+  files: Record<string, string>,
+  { directories = [], root = '' }: MemoryFileSystemOptions = {},
+) {
+  const contents = new Map(
+    Object.entries(files).map(([file, content]) => [path.join(root, file), content]),
+  );
+  const dirs = new Set(directories.map((directory) => path.join(root, directory)));
+
+  const isDirectory = (filePath: string) =>
+    dirs.has(filePath) || [...contents.keys()].some((file) => file.startsWith(filePath + path.sep));
+  const exists = (filePath: string) => contents.has(filePath) || isDirectory(filePath);
+  const missing = (filePath: string) =>
+    Promise.reject(Object.assign(new Error(`ENOENT: ${filePath}`), { code: 'ENOENT' }));
+
+  (fs.access as jest.Mock).mockImplementation(async (filePath: string) =>
+    exists(filePath) ? undefined : missing(filePath),
+  );
+  (fs.stat as jest.Mock).mockImplementation(async (filePath: string) =>
+    exists(filePath) ? { isDirectory: () => isDirectory(filePath) } : missing(filePath),
+  );
+  (fs.readdir as jest.Mock).mockImplementation(async (dirPath: string) => {
+    const names = [...contents.keys(), ...dirs]
+      .filter((entry) => entry.startsWith(dirPath + path.sep))
+      .map((entry) => entry.slice(dirPath.length + 1).split(path.sep)[0]);
+    return [...new Set(names)];
+  });
+  (fs.readFile as jest.Mock).mockImplementation(async (filePath: string) =>
+    contents.has(filePath) ? contents.get(filePath) : missing(filePath),
+  );
+  (fs.writeFile as jest.Mock).mockImplementation(async (filePath: string, content: string) => {
+    contents.set(filePath, content);
+  });
+  (fs.unlink as jest.Mock).mockImplementation(async (filePath: string) => {
+    contents.delete(filePath);
+  });
+  (fs.mkdir as jest.Mock).mockImplementation(async (directory: string) => {
+    for (let current = directory; !dirs.has(current); current = path.dirname(current)) {
+      dirs.add(current);
+    }
+  });
+  (fs.rmdir as jest.Mock).mockImplementation(async (directory: string) => {
+    dirs.delete(directory);
+  });
+
+  return { contents, dirs };
+}
@@ -7,3 +7,6 @@ export const stat = jest.fn();
 export const access = jest.fn();
 export const rename = jest.fn();
 export const unlink = jest.fn();
+export const rmdir = jest.fn();
+export const copyFile = jest.fn();
+export const constants = { COPYFILE_EXCL: 1 };
@@ -11,6 +11,8 @@ const vscode = {
     }),
     showQuickPick: jest.fn().mockResolvedValue(null),
     showInputBox: jest.fn().mockResolvedValue(''),
+    showOpenDialog: jest.fn().mockResolvedValue(undefined),
+    showTextDocument: jest.fn().mockResolvedValue(undefined),
   },
   commands: {
     registerCommand: jest.fn(),
@@ -18,30 +20,71 @@ const vscode = {
   },
   workspace: {
     getConfiguration: jest.fn(),
+    getWorkspaceFolder: jest.fn(),
     findFiles: jest.fn().mockResolvedValue([]),
     applyEdit: jest.fn().mockResolvedValue(true),
+    isTrusted: true,
+    textDocuments: [],
+    onDidOpenTextDocument: jest.fn(),
+    onDidSaveTextDocument: jest.fn(),
+    onDidCloseTextDocument: jest.fn(),
+    onDidGrantWorkspaceTrust: jest.fn(),
+    registerTextDocumentContentProvider: jest.fn(),
     openTextDocument: jest.fn().mockImplementation((uri) => ({
       uri,
       getText: jest.fn().mockReturnValue(''),
       positionAt: jest.fn().mockReturnValue({ line: 0, character: 0 }),
+      save: jest.fn().mockResolvedValue(true),
     })),
   },
+  languages: {
+    createDiagnosticCollection: jest.fn().mockReturnValue({
+      set: jest.fn(),
+      delete: jest.fn(),
+      dispose: jest.fn(),
+    }),
+  },
   Uri: {
     file: jest.fn().mockImplementation((path) => ({ fsPath: path })),
     parse: jest.fn().mockImplementation((uri) => ({ fsPath: uri })),
+    from: jest
+      .fn()
+      .mockImplementation((components) => ({ ...components, fsPath: components.path })),
   },
-  Range: jest.fn().mockImplementation((startLine, startChar, endLine, endChar) => ({
-    start: { line: startLine, character: startChar },
-    end: { line: endLine, character: endChar },
-  })),
+  Range: jest.fn().mockImplementation((startLine, startChar, endLine, endChar) =>
+    // Also constructed from two positions
+    typeof startLine === 'object' ?
+      { start: startLine, end: startChar }
+    : {
+        start: { line: startLine, character: startChar },
+        end: { line: endLine, character: endChar },
+      },
+  ),
   Position: jest.fn().mockImplementation((line, character) => ({
     line,
     character,
   })),
+  Selection: jest.fn().mockImplementation((anchor, active) => ({ anchor, active })),
+  CodeActionKind: {
+    SourceOrganizeImports: { value: 'source.organizeImports' },
+  },
+  Diagnostic: jest.fn().mockImplementation((range, message, severity) => ({
+    range,
+    message,
+    severity,
+  })),
+  DiagnosticSeverity: {
+    Error: 0,
+    Warning: 1,
+    Information: 2,
+    Hint: 3,
+  },
   WorkspaceEdit: jest.fn().mockImplementation(() => ({
     replace: jest.fn(),
+    set: jest.fn(),
     delete: jest.fn(),
     insert: jest.fn(),
+    renameFile: jest.fn(),
     entries: jest.fn().mockReturnValue([]),
   })),
   QuickPickItemKind: {
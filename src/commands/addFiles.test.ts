@@ -3,10 +3,16 @@ import * as path from 'path';
 import { addFiles } from './addFiles';
 import { findConfig } from '../utils/configurationUtils';
 import { generateFromTemplates } from '../utils/generationUtils';
+import { getBuiltInVariables } from '../utils/contextUtils';
 
 // Mock the configurationUtils and generationUtils modules
-jest.mock('../utils/configurationUtils');
+jest.mock('../utils/configurationUtils', () => ({
+  ...jest.requireActual('../utils/configurationUtils'),
+  findConfig: jest.fn(),
+  validateComponentName: jest.fn(),
+}));
 jest.mock('../utils/generationUtils');
+jest.mock('../utils/contextUtils');
 
 describe('addFiles command', () => {
   beforeEach(() => {
@@ -77,6 +83,8 @@ describe('addFiles command', () => {
       success: true,
       addedFiles: ['MyComponent.test.tsx'],
       existingFiles: [],
+      overwrittenFiles: [],
+      mergedFiles: [],
     });
 
     await addFiles(mockUri);
@@ -111,14 +119,107 @@ describe('addFiles command', () => {
       ['test.tsx.template'],
       mockConfig.config.templates,
       path.join('/path/to/project', 'component-templates'), // Now includes templatesDirectory
+
+      expect.objectContaining({ variables: {} }),
     );
 
+    // Built-in variables describe the folder containing the component
+    expect(getBuiltInVariables).toHaveBeenCalledWith({
+      targetDirectory: '/path/to',
+      configDir: '/path/to/project',
+    });
+
     // Check success message was shown
     expect(vscode.window.showInformationMessage).toHaveBeenCalledWith(
       expect.stringContaining('Successfully added 1 file(s)'),
     );
   });
 
+  it('should list inline templates by their label', async () => {
+    const mockConfig = {
+      config: {
+        defaultTemplateGroup: ['component.tsx.template', 'Barrel'],
+        templates: [
+          {
+            source: 'component.tsx.template',
+            label: 'Component',
+            target: '{{PascalCaseComponentName}}.tsx',
+          },
+          {
+            content: "export * from './{{PascalCaseComponentName}}';",
+            label: 'Barrel',
+            target: 'index.ts',
+          },
+        ],
+        templatesDirectory: 'component-templates',
+      },
+      configDir: '/path/to/project',
+    };
+
+    (findConfig as jest.Mock).mockResolvedValueOnce(mockConfig);
+    (vscode.window.showQuickPick as jest.Mock).mockResolvedValueOnce([
+      { label: 'Barrel', templateSource: 'Barrel' },
+    ]);
+    (generateFromTemplates as jest.Mock).mockResolvedValueOnce({
+      success: true,
+      addedFiles: ['index.ts'],
+      existingFiles: [],
+      overwrittenFiles: [],
+      mergedFiles: [],
+    });
+
+    await addFiles(vscode.Uri.file('/path/to/MyComponent'));
+
+    const quickPickItems = (vscode.window.showQuickPick as jest.Mock).mock.calls[0][0];
+    expect(quickPickItems).toContainEqual({
+      label: 'Barrel',
+      templateSource: 'Barrel',
+      description: 'index.ts',
+    });
+    expect(generateFromTemplates).toHaveBeenCalledWith(
+      'MyComponent',
+      '/path/to',
+      ['Barrel'],
+      mockConfig.config.templates,
+      path.join('/path/to/project', 'component-templates'),
+      expect.objectContaining({ variables: {} }),
+    );
+  });
+
+  it('should add files to a directory named in any case without renaming it', async () => {
+    (findConfig as jest.Mock).mockResolvedValueOnce({
+      config: {
+        directoryCase: 'pascal',
+        defaultTemplateGroup: ['index.ts.template'],
+        templates: [{ source: 'index.ts.template', label: 'Index', target: 'index.ts' }],
+        templatesDirectory: 'component-templates',
+      },
+      configDir: '/path/to/project',
+    });
+    (vscode.window.showQuickPick as jest.Mock).mockResolvedValueOnce([
+      { label: 'Index', templateSource: 'index.ts.template' },
+    ]);
+    (generateFromTemplates as jest.Mock).mockResolvedValueOnce({
+      success: true,
+      addedFiles: ['index.ts'],
+      existingFiles: [],
+      overwrittenFiles: [],
+      mergedFiles: [],
+    });
+
+    await addFiles(vscode.Uri.file('/path/to/my-component'));
+
+    // The existing folder is used as-is rather than renamed to the directoryCase
+    expect(generateFromTemplates).toHaveBeenCalledWith(
+      'my-component',
+      '/path/to',
+      ['index.ts.template'],
+      expect.any(Array),
+      path.join('/path/to/project', 'component-templates'),
+      expect.objectContaining({ variables: {} }),
+    );
+  });
+
   it('should show warning when some files already exist', async () => {
     // Mock configuration
     (findConfig as jest.Mock).mockResolvedValueOnce({
@@ -148,6 +249,8 @@ describe('addFiles command', () => {
       success: true,
       addedFiles: ['styles.scss'],
       existingFiles: ['MyComponent.tsx'],
+      overwrittenFiles: [],
+      mergedFiles: [],
     });
 
     await addFiles(mockUri);
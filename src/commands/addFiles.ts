@@ -1,7 +1,18 @@
 import * as vscode from 'vscode';
 import * as path from 'path';
-import { findConfig, TemplateItem, validateComponentName } from '../utils/configurationUtils';
+import {
+  findConfig,
+  getTemplateKey,
+  TemplateItem,
+  validateComponentName,
+} from '../utils/configurationUtils';
 import { generateFromTemplates } from '../utils/generationUtils';
+import { runJournaled } from '../utils/journalUtils';
+import { runGenerationHooks } from '../utils/hooksUtils';
+import { promptForVariables } from '../utils/variableUtils';
+import { getBuiltInVariables } from '../utils/contextUtils';
+import { previewGeneratedFiles } from '../utils/previewUtils';
+import { getConflictResolver, showGenerationResult } from '../utils/conflictUtils';
 
 interface QuickPickTemplateItem extends vscode.QuickPickItem {
   templateSource: string;
@@ -31,9 +42,9 @@ export async function addFiles(uri: vscode.Uri) {
 
   const quickPickItems: (QuickPickTemplateItem | vscode.QuickPickItem)[] = [];
 
-  // Function to find template details by source
+  // Function to find template details by source (or label, for inline templates)
   const getTemplateDetails = (source: string): TemplateItem | undefined =>
-    config.templates.find((t) => t.source === source);
+    config.templates.find((t) => getTemplateKey(t) === source);
 
   // Add default templates section
   if (config.defaultTemplateGroup.length > 0) {
@@ -108,37 +119,49 @@ export async function addFiles(uri: vscode.Uri) {
     )
     .map((item) => item.templateSource);
 
+  const answers = await promptForVariables(config.variables);
+  if (!answers) {
+    return;
+  }
+
+  const builtIns = await getBuiltInVariables({
+    targetDirectory: path.dirname(uri.fsPath),
+    configDir,
+  });
+  const variables = { ...builtIns, ...answers };
+
   const templatesPath = path.join(configDir, config.templatesDirectory);
 
   try {
-    const result = await generateFromTemplates(
-      componentName,
-      path.dirname(uri.fsPath),
-      selectedTemplateSources,
-      config.templates,
-      templatesPath,
+    const result = await runJournaled(`add files to ${componentName}`, (journal) =>
+      generateFromTemplates(
+        componentName,
+        path.dirname(uri.fsPath),
+        selectedTemplateSources,
+        config.templates,
+        templatesPath,
+        {
+          variables,
+          irregularPlurals: config.irregularPlurals,
+          engine: config.engine,
+          confirm:
+            config.preview ? (files) => previewGeneratedFiles(files, config.onConflict) : undefined,
+          resolveConflict: getConflictResolver(config.onConflict),
+          journal,
+          onGenerated: (files) =>
+            runGenerationHooks(config.hooks, files, { cwd: configDir, journal }),
+        },
+      ),
     );
-
-    if (result.existingFiles.length > 0) {
-      // Show warning about skipped files
-      if (result.addedFiles.length === 0) {
-        vscode.window.showWarningMessage(
-          `No files added - all selected files already exist: ${result.existingFiles.join(', ')}`,
-        );
-      } else {
-        vscode.window.showWarningMessage(
-          `Added ${result.addedFiles.length} file(s), skipped ${result.existingFiles.length} existing file(s): ${result.existingFiles.join(', ')}`,
-        );
-      }
-    } else if (result.addedFiles.length > 0) {
-      // All files added successfully
-      vscode.window.showInformationMessage(
-        `Successfully added ${result.addedFiles.length} file(s) to ${componentName}!`,
-      );
-    } else {
-      // Some other error occurred
-      vscode.window.showErrorMessage('Failed to add any files to the component.');
+    if (result.cancelled) {
+      return;
     }
+
+    showGenerationResult(
+      result,
+      `Files for ${componentName}`,
+      `Successfully added ${result.addedFiles.length} file(s) to ${componentName}!`,
+    );
   } catch (error) {
     vscode.window.showErrorMessage(
       `Error adding files: ${error instanceof Error ? error.message : String(error)}`,
@@ -4,12 +4,14 @@ import { createAltComponent } from './createWithAltFiles';
 import {
   findConfig,
   getComponentNamePrompt,
-  validateComponentName,
+  validateComponentPath,
 } from '../utils/configurationUtils';
 import { generateFromTemplates } from '../utils/generationUtils';
+import { getBuiltInVariables } from '../utils/contextUtils';
 
 jest.mock('../utils/configurationUtils');
 jest.mock('../utils/generationUtils');
+jest.mock('../utils/contextUtils');
 
 describe('createAltComponent command', () => {
   beforeEach(() => {
@@ -17,7 +19,7 @@ describe('createAltComponent command', () => {
 
     (getComponentNamePrompt as jest.Mock).mockReturnValue('Enter component name');
 
-    (validateComponentName as jest.Mock).mockReturnValue(null);
+    (validateComponentPath as jest.Mock).mockReturnValue(null);
   });
 
   it('should show error when URI is not provided', async () => {
@@ -111,10 +113,16 @@ describe('createAltComponent command', () => {
 
     (vscode.window.showInputBox as jest.Mock).mockResolvedValueOnce('MyComponent');
 
+    (getBuiltInVariables as jest.Mock).mockResolvedValueOnce({
+      templateGroupLabel: 'Simple Component',
+    });
+
     (generateFromTemplates as jest.Mock).mockResolvedValueOnce({
       success: true,
       addedFiles: ['MyComponent.tsx', 'index.ts'],
       existingFiles: [],
+      overwrittenFiles: [],
+      mergedFiles: [],
     });
 
     const mockUri = vscode.Uri.file('/path/to/components');
@@ -143,13 +151,103 @@ describe('createAltComponent command', () => {
       ['component-simple.tsx.template', 'index.ts.template'],
       mockConfig.config.templates,
       path.join('/path/to/project', 'component-templates'),
+      expect.objectContaining({ variables: { templateGroupLabel: 'Simple Component' } }),
     );
 
+    expect(getBuiltInVariables).toHaveBeenCalledWith({
+      targetDirectory: '/path/to/components',
+      configDir: '/path/to/project',
+      templateGroupLabel: 'Simple Component',
+    });
+
     expect(vscode.window.showInformationMessage).toHaveBeenCalledWith(
       'Component MyComponent created successfully using Simple Component template!',
     );
   });
 
+  it('should pass the template group directory case over the config default', async () => {
+    const templateGroup = {
+      label: 'Page',
+      templates: ['index.ts.template'],
+      directoryCase: 'pascal',
+    };
+    (findConfig as jest.Mock).mockResolvedValueOnce({
+      config: {
+        directoryCase: 'kebab',
+        alternateTemplateGroups: [templateGroup],
+        templates: [{ source: 'index.ts.template', label: 'Index', target: 'index.ts' }],
+        templatesDirectory: 'component-templates',
+      },
+      configDir: '/path/to/project',
+    });
+    (vscode.window.showQuickPick as jest.Mock).mockResolvedValueOnce({
+      label: 'Page',
+      templateGroup,
+    });
+    (vscode.window.showInputBox as jest.Mock).mockResolvedValueOnce('settings-page');
+    (getBuiltInVariables as jest.Mock).mockResolvedValueOnce({});
+    (generateFromTemplates as jest.Mock).mockResolvedValueOnce({
+      success: true,
+      addedFiles: ['index.ts'],
+      existingFiles: [],
+      overwrittenFiles: [],
+      mergedFiles: [],
+    });
+
+    await createAltComponent(vscode.Uri.file('/path/to/components'));
+
+    expect(generateFromTemplates).toHaveBeenCalledWith(
+      'settings-page',
+      '/path/to/components',
+      ['index.ts.template'],
+      expect.any(Array),
+      path.join('/path/to/project', 'component-templates'),
+      expect.objectContaining({ directoryCase: 'pascal' }),
+    );
+  });
+
+  it('should generate flat template groups into the selected folder', async () => {
+    const templateGroup = { label: 'Hook', templates: ['hook.ts.template'], flat: true };
+    (findConfig as jest.Mock).mockResolvedValueOnce({
+      config: {
+        alternateTemplateGroups: [templateGroup],
+        templates: [
+          {
+            source: 'hook.ts.template',
+            label: 'Hook',
+            target: 'use{{PascalCaseComponentName}}.ts',
+          },
+        ],
+        templatesDirectory: 'component-templates',
+      },
+      configDir: '/path/to/project',
+    });
+    (vscode.window.showQuickPick as jest.Mock).mockResolvedValueOnce({
+      label: 'Hook',
+      templateGroup,
+    });
+    (vscode.window.showInputBox as jest.Mock).mockResolvedValueOnce('Toggle');
+    (getBuiltInVariables as jest.Mock).mockResolvedValueOnce({});
+    (generateFromTemplates as jest.Mock).mockResolvedValueOnce({
+      success: true,
+      addedFiles: ['useToggle.ts'],
+      existingFiles: [],
+      overwrittenFiles: [],
+      mergedFiles: [],
+    });
+
+    await createAltComponent(vscode.Uri.file('/path/to/hooks'));
+
+    expect(generateFromTemplates).toHaveBeenCalledWith(
+      'Toggle',
+      '/path/to/hooks',
+      ['hook.ts.template'],
+      expect.any(Array),
+      path.join('/path/to/project', 'component-templates'),
+      expect.objectContaining({ flat: true }),
+    );
+  });
+
   it('should exit when user cancels template group selection', async () => {
     (findConfig as jest.Mock).mockResolvedValueOnce({
       config: {
@@ -2,10 +2,17 @@ import * as vscode from 'vscode';
 import * as path from 'path';
 import {
   findConfig,
-  validateComponentName,
+  validateComponentPath,
   getComponentNamePrompt,
 } from '../utils/configurationUtils';
 import { generateFromTemplates } from '../utils/generationUtils';
+import { runJournaled } from '../utils/journalUtils';
+import { runGenerationHooks } from '../utils/hooksUtils';
+import { promptForVariables } from '../utils/variableUtils';
+import { getBuiltInVariables } from '../utils/contextUtils';
+import { previewGeneratedFiles } from '../utils/previewUtils';
+import { getConflictResolver, showGenerationResult } from '../utils/conflictUtils';
+import { splitComponentPath, toDirectoryName } from '../utils/caseUtils';
 
 export async function createAltComponent(uri: vscode.Uri) {
   if (!uri || !uri.fsPath) {
@@ -40,28 +47,70 @@ export async function createAltComponent(uri: vscode.Uri) {
     return;
   }
 
-  const componentName = await vscode.window.showInputBox({
+  const componentPath = await vscode.window.showInputBox({
     prompt: getComponentNamePrompt(),
-    placeHolder: 'e.g., MyComponent, myComponent, my-component, or my_component',
-    validateInput: validateComponentName,
+    placeHolder: 'e.g., MyComponent, my-component, or forms/inputs/TextInput',
+    validateInput: validateComponentPath,
   });
 
-  if (!componentName) {
+  if (!componentPath) {
     return;
   }
 
+  const { templateGroup } = selectedItem;
+  const directoryCase = templateGroup.directoryCase ?? config.directoryCase;
+
+  // Parent folders typed before the name are created in the directory case
+  const { folders, name: componentName } = splitComponentPath(componentPath);
+  const targetDirectory = path.join(
+    uri.fsPath,
+    ...folders.map((folder) => toDirectoryName(folder, directoryCase)),
+  );
+
+  const answers = await promptForVariables(config.variables);
+  if (!answers) {
+    return;
+  }
+
+  const builtIns = await getBuiltInVariables({
+    targetDirectory,
+    configDir,
+    templateGroupLabel: selectedItem.label,
+  });
+  const variables = { ...builtIns, ...answers };
+
   const templatesPath = path.join(configDir, config.templatesDirectory);
 
   try {
-    await generateFromTemplates(
-      componentName,
-      uri.fsPath,
-      selectedItem.templateGroup.templates,
-      config.templates,
-      templatesPath,
+    const result = await runJournaled(`create ${componentPath}`, (journal) =>
+      generateFromTemplates(
+        componentName,
+        targetDirectory,
+        templateGroup.templates,
+        config.templates,
+        templatesPath,
+        {
+          variables,
+          irregularPlurals: config.irregularPlurals,
+          engine: config.engine,
+          directoryCase,
+          flat: templateGroup.flat,
+          confirm:
+            config.preview ? (files) => previewGeneratedFiles(files, config.onConflict) : undefined,
+          resolveConflict: getConflictResolver(config.onConflict),
+          journal,
+          onGenerated: (files) =>
+            runGenerationHooks(config.hooks, files, { cwd: configDir, journal }),
+        },
+      ),
     );
-    vscode.window.showInformationMessage(
-      `Component ${componentName} created successfully using ${selectedItem.label} template!`,
+    if (result.cancelled) {
+      return;
+    }
+    showGenerationResult(
+      result,
+      `Component ${componentPath}`,
+      `Component ${componentPath} created successfully using ${selectedItem.label} template!`,
     );
   } catch (error) {
     vscode.window.showErrorMessage(
@@ -1,16 +1,25 @@
 import * as vscode from 'vscode';
 import * as path from 'path';
+import * as fs from 'fs/promises';
 import { createWithDefaultFiles } from './createWithDefaultFiles';
 import {
   findConfig,
   getComponentNamePrompt,
-  validateComponentName,
+  getTemplateKey,
+  validateComponentPath,
 } from '../utils/configurationUtils';
 import { generateFromTemplates } from '../utils/generationUtils';
+import { getBuiltInVariables } from '../utils/contextUtils';
+import { previewGeneratedFiles } from '../utils/previewUtils';
+import { runGenerationHooks } from '../utils/hooksUtils';
 
 // Mock the utility modules
+jest.mock('fs/promises');
 jest.mock('../utils/configurationUtils');
 jest.mock('../utils/generationUtils');
+jest.mock('../utils/contextUtils');
+jest.mock('../utils/previewUtils');
+jest.mock('../utils/hooksUtils');
 
 describe('createWithDefaultFiles command', () => {
   beforeEach(() => {
@@ -19,8 +28,8 @@ describe('createWithDefaultFiles command', () => {
     // Default mock for getComponentNamePrompt
     (getComponentNamePrompt as jest.Mock).mockReturnValue('Enter component name');
 
-    // Default mock for validateComponentName to pass validation
-    (validateComponentName as jest.Mock).mockReturnValue(null);
+    // Default mock for validateComponentPath to pass validation
+    (validateComponentPath as jest.Mock).mockReturnValue(null);
   });
 
   it('should show error when URI is not provided', async () => {
@@ -70,6 +79,8 @@ describe('createWithDefaultFiles command', () => {
       success: true,
       addedFiles: ['MyComponent.tsx', 'index.ts'],
       existingFiles: [],
+      overwrittenFiles: [],
+      mergedFiles: [],
     });
 
     const mockUri = vscode.Uri.file('/path/to/components');
@@ -79,7 +90,7 @@ describe('createWithDefaultFiles command', () => {
     expect(vscode.window.showInputBox).toHaveBeenCalledWith(
       expect.objectContaining({
         prompt: 'Enter component name',
-        validateInput: validateComponentName,
+        validateInput: validateComponentPath,
       }),
     );
 
@@ -90,14 +101,254 @@ describe('createWithDefaultFiles command', () => {
       mockConfig.config.defaultTemplateGroup,
       mockConfig.config.templates,
       path.join('/path/to/project', 'component-templates'),
+      expect.objectContaining({ variables: {} }),
     );
 
+    expect(getBuiltInVariables).toHaveBeenCalledWith({
+      targetDirectory: '/path/to/components',
+      configDir: '/path/to/project',
+      templateGroupLabel: 'Default',
+    });
+
     // Verify success message was shown
     expect(vscode.window.showInformationMessage).toHaveBeenCalledWith(
       'Component MyComponent created successfully!',
     );
   });
 
+  it('should create parent folders typed before the component name', async () => {
+    (findConfig as jest.Mock).mockResolvedValueOnce({
+      config: {
+        directoryCase: 'kebab',
+        defaultTemplateGroup: ['index.ts.template'],
+        templates: [{ source: 'index.ts.template', label: 'Index', target: 'index.ts' }],
+        templatesDirectory: 'component-templates',
+      },
+      configDir: '/path/to/project',
+    });
+    (vscode.window.showInputBox as jest.Mock).mockResolvedValueOnce('forms/TextInputs/TextInput');
+    (generateFromTemplates as jest.Mock).mockResolvedValueOnce({
+      success: true,
+      addedFiles: ['index.ts'],
+      existingFiles: [],
+      overwrittenFiles: [],
+      mergedFiles: [],
+    });
+
+    await createWithDefaultFiles(vscode.Uri.file('/path/to/components'));
+
+    const targetDirectory = path.join('/path/to/components', 'forms', 'text-inputs');
+    expect(generateFromTemplates).toHaveBeenCalledWith(
+      'TextInput',
+      targetDirectory,
+      ['index.ts.template'],
+      expect.any(Array),
+      path.join('/path/to/project', 'component-templates'),
+      expect.objectContaining({ directoryCase: 'kebab' }),
+    );
+    expect(getBuiltInVariables).toHaveBeenCalledWith(expect.objectContaining({ targetDirectory }));
+  });
+
+  it('should prompt for template variables after the component name', async () => {
+    const mockConfig = {
+      config: {
+        defaultTemplateGroup: ['component.tsx.template'],
+        templates: [
+          {
+            source: 'component.tsx.template',
+            label: 'Component',
+            target: '{{PascalCaseComponentName}}.tsx',
+          },
+        ],
+        templatesDirectory: 'component-templates',
+        variables: [{ name: 'owningTeam', type: 'string', prompt: 'Owning team' }],
+      },
+      configDir: '/path/to/project',
+    };
+
+    (findConfig as jest.Mock).mockResolvedValueOnce(mockConfig);
+
+    (vscode.window.showInputBox as jest.Mock)
+      .mockResolvedValueOnce('MyComponent')
+      .mockResolvedValueOnce('design-system');
+
+    (generateFromTemplates as jest.Mock).mockResolvedValueOnce({
+      success: true,
+      addedFiles: ['MyComponent.tsx'],
+      existingFiles: [],
+      overwrittenFiles: [],
+      mergedFiles: [],
+    });
+
+    const mockUri = vscode.Uri.file('/path/to/components');
+    await createWithDefaultFiles(mockUri);
+
+    expect(vscode.window.showInputBox).toHaveBeenNthCalledWith(
+      2,
+      expect.objectContaining({ prompt: 'Owning team' }),
+    );
+
+    expect(generateFromTemplates).toHaveBeenCalledWith(
+      'MyComponent',
+      '/path/to/components',
+      mockConfig.config.defaultTemplateGroup,
+      mockConfig.config.templates,
+      path.join('/path/to/project', 'component-templates'),
+      expect.objectContaining({ variables: { owningTeam: 'design-system' } }),
+    );
+  });
+
+  it('should exit when user cancels a template variable prompt', async () => {
+    (findConfig as jest.Mock).mockResolvedValueOnce({
+      config: {
+        defaultTemplateGroup: [],
+        templates: [],
+        templatesDirectory: 'component-templates',
+        variables: [{ name: 'withStyles', type: 'boolean' }],
+      },
+      configDir: '/path/to/project',
+    });
+
+    (vscode.window.showInputBox as jest.Mock).mockResolvedValueOnce('MyComponent');
+    (vscode.window.showQuickPick as jest.Mock).mockResolvedValueOnce(undefined);
+
+    const mockUri = vscode.Uri.file('/path/to/components');
+    await createWithDefaultFiles(mockUri);
+
+    expect(generateFromTemplates).not.toHaveBeenCalled();
+  });
+
+  it('should preview the files first when the config enables it', async () => {
+    (findConfig as jest.Mock).mockResolvedValueOnce({
+      config: {
+        preview: true,
+        onConflict: 'overwrite',
+        defaultTemplateGroup: ['index.ts.template'],
+        templates: [{ source: 'index.ts.template', label: 'Index', target: 'index.ts' }],
+        templatesDirectory: 'component-templates',
+      },
+      configDir: '/path/to/project',
+    });
+    (vscode.window.showInputBox as jest.Mock).mockResolvedValueOnce('MyComponent');
+    (generateFromTemplates as jest.Mock).mockResolvedValueOnce({
+      success: false,
+      addedFiles: [],
+      existingFiles: [],
+      overwrittenFiles: [],
+      mergedFiles: [],
+      cancelled: true,
+    });
+
+    await createWithDefaultFiles(vscode.Uri.file('/path/to/components'));
+
+    expect(generateFromTemplates).toHaveBeenCalledWith(
+      'MyComponent',
+      '/path/to/components',
+      ['index.ts.template'],
+      expect.any(Array),
+      path.join('/path/to/project', 'component-templates'),
+      expect.objectContaining({ confirm: expect.any(Function) }),
+    );
+    const { confirm } = (generateFromTemplates as jest.Mock).mock.calls[0][5];
+    await confirm([]);
+    expect(previewGeneratedFiles).toHaveBeenCalledWith([], 'overwrite');
+    // Cancelling the preview is not reported as a success
+    expect(vscode.window.showInformationMessage).not.toHaveBeenCalled();
+  });
+
+  it('should run the configured hooks on the generated files', async () => {
+    const hooks = { format: true, open: ['index.ts.template'] };
+    (findConfig as jest.Mock).mockResolvedValueOnce({
+      config: {
+        hooks,
+        defaultTemplateGroup: ['index.ts.template'],
+        templates: [{ source: 'index.ts.template', label: 'Index', target: 'index.ts' }],
+        templatesDirectory: 'component-templates',
+      },
+      configDir: '/path/to/project',
+    });
+    (vscode.window.showInputBox as jest.Mock).mockResolvedValueOnce('MyComponent');
+    (generateFromTemplates as jest.Mock).mockResolvedValueOnce({
+      success: true,
+      addedFiles: ['index.ts'],
+      existingFiles: [],
+      overwrittenFiles: [],
+      mergedFiles: [],
+    });
+
+    await createWithDefaultFiles(vscode.Uri.file('/path/to/components'));
+
+    const { onGenerated, journal } = (generateFromTemplates as jest.Mock).mock.calls[0][5];
+    await onGenerated([]);
+    expect(runGenerationHooks).toHaveBeenCalledWith(hooks, [], {
+      cwd: '/path/to/project',
+      journal,
+    });
+  });
+
+  it('should not report success when existing files were skipped', async () => {
+    (findConfig as jest.Mock).mockResolvedValueOnce({
+      config: {
+        defaultTemplateGroup: ['index.ts.template'],
+        templates: [{ source: 'index.ts.template', label: 'Index', target: 'index.ts' }],
+        templatesDirectory: 'component-templates',
+      },
+      configDir: '/path/to/project',
+    });
+    (vscode.window.showInputBox as jest.Mock).mockResolvedValueOnce('MyComponent');
+    (generateFromTemplates as jest.Mock).mockResolvedValueOnce({
+      success: false,
+      addedFiles: [],
+      existingFiles: ['index.ts'],
+      overwrittenFiles: [],
+      mergedFiles: [],
+    });
+
+    await createWithDefaultFiles(vscode.Uri.file('/path/to/components'));
+
+    expect(vscode.window.showInformationMessage).not.toHaveBeenCalled();
+    expect(vscode.window.showWarningMessage).toHaveBeenCalledWith(
+      'Component MyComponent: created 0 file(s), skipped 1 existing file(s) (index.ts).',
+    );
+  });
+
+  it('should remove the files already written when a later one fails', async () => {
+    (findConfig as jest.Mock).mockResolvedValueOnce({
+      config: {
+        defaultTemplateGroup: ['Component', 'Index'],
+        templates: [
+          { label: 'Component', target: '{{name}}.tsx', content: 'export const {{name}} = null;' },
+          { label: 'Index', target: 'index.ts', content: "export * from './{{name}}';" },
+        ],
+        templatesDirectory: 'component-templates',
+      },
+      configDir: '/path/to/project',
+    });
+    (vscode.window.showInputBox as jest.Mock).mockResolvedValueOnce('MyComponent');
+    // Generate for real, so the files are written and rolled back through the journal
+    (getTemplateKey as jest.Mock).mockImplementation(
+      jest.requireActual('../utils/configurationUtils').getTemplateKey,
+    );
+    (generateFromTemplates as jest.Mock).mockImplementationOnce(
+      jest.requireActual('../utils/generationUtils').generateFromTemplates,
+    );
+    (fs.access as jest.Mock).mockRejectedValue(new Error('ENOENT'));
+    (fs.readFile as jest.Mock).mockResolvedValue('export const MyComponent = null;');
+    (fs.writeFile as jest.Mock)
+      .mockResolvedValueOnce(undefined)
+      .mockRejectedValueOnce(new Error('ENOSPC: no space left on device'));
+
+    await createWithDefaultFiles(vscode.Uri.file('/path/to/components'));
+
+    const componentFile = path.join('/path/to/components', 'MyComponent', 'MyComponent.tsx');
+    expect(fs.writeFile).toHaveBeenCalledWith(componentFile, 'export const MyComponent = null;');
+    expect(fs.unlink).toHaveBeenCalledWith(componentFile);
+    expect(runGenerationHooks).not.toHaveBeenCalled();
+    expect(vscode.window.showErrorMessage).toHaveBeenCalledWith(
+      'Error generating component: Could not generate index.ts: ENOSPC: no space left on device',
+    );
+  });
+
   it('should exit when user cancels component name input', async () => {
     const mockConfig = {
       config: {
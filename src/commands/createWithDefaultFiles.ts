@@ -3,9 +3,16 @@ import * as path from 'path';
 import {
   findConfig,
   getComponentNamePrompt,
-  validateComponentName,
+  validateComponentPath,
 } from '../utils/configurationUtils';
 import { generateFromTemplates } from '../utils/generationUtils';
+import { runJournaled } from '../utils/journalUtils';
+import { runGenerationHooks } from '../utils/hooksUtils';
+import { promptForVariables } from '../utils/variableUtils';
+import { getBuiltInVariables } from '../utils/contextUtils';
+import { previewGeneratedFiles } from '../utils/previewUtils';
+import { getConflictResolver, showGenerationResult } from '../utils/conflictUtils';
+import { splitComponentPath, toDirectoryName } from '../utils/caseUtils';
 
 export const createWithDefaultFiles = async (uri: vscode.Uri) => {
   if (!uri || !uri.fsPath) {
@@ -20,25 +27,65 @@ export const createWithDefaultFiles = async (uri: vscode.Uri) => {
   const { config, configDir } = configResult;
   const templatesPath = path.join(configDir, config.templatesDirectory);
 
-  const componentName = await vscode.window.showInputBox({
+  const componentPath = await vscode.window.showInputBox({
     prompt: getComponentNamePrompt(),
-    placeHolder: 'e.g., MyComponent, myComponent, my-component, or my_component',
-    validateInput: validateComponentName,
+    placeHolder: 'e.g., MyComponent, my-component, or forms/inputs/TextInput',
+    validateInput: validateComponentPath,
   });
 
-  if (!componentName) {
+  if (!componentPath) {
     return;
   }
 
+  // Parent folders typed before the name are created in the directory case
+  const { folders, name: componentName } = splitComponentPath(componentPath);
+  const targetDirectory = path.join(
+    uri.fsPath,
+    ...folders.map((folder) => toDirectoryName(folder, config.directoryCase)),
+  );
+
+  const answers = await promptForVariables(config.variables);
+  if (!answers) {
+    return;
+  }
+
+  const builtIns = await getBuiltInVariables({
+    targetDirectory,
+    configDir,
+    templateGroupLabel: 'Default',
+  });
+  const variables = { ...builtIns, ...answers };
+
   try {
-    await generateFromTemplates(
-      componentName,
-      uri.fsPath,
-      config.defaultTemplateGroup,
-      config.templates,
-      templatesPath,
+    const result = await runJournaled(`create ${componentPath}`, (journal) =>
+      generateFromTemplates(
+        componentName,
+        targetDirectory,
+        config.defaultTemplateGroup,
+        config.templates,
+        templatesPath,
+        {
+          variables,
+          irregularPlurals: config.irregularPlurals,
+          engine: config.engine,
+          directoryCase: config.directoryCase,
+          confirm:
+            config.preview ? (files) => previewGeneratedFiles(files, config.onConflict) : undefined,
+          resolveConflict: getConflictResolver(config.onConflict),
+          journal,
+          onGenerated: (files) =>
+            runGenerationHooks(config.hooks, files, { cwd: configDir, journal }),
+        },
+      ),
+    );
+    if (result.cancelled) {
+      return;
+    }
+    showGenerationResult(
+      result,
+      `Component ${componentPath}`,
+      `Component ${componentPath} created successfully!`,
     );
-    vscode.window.showInformationMessage(`Component ${componentName} created successfully!`);
   } catch (error) {
     vscode.window.showErrorMessage(
       `Error generating component: ${error instanceof Error ? error.message : String(error)}`,
@@ -79,6 +79,8 @@ describe('forkComponentCommand', () => {
       
       export default ${sourceName};`,
     );
+    // Leave the lowercase styles.sourcecomponent as it is
+    (vscode.window.showQuickPick as jest.Mock).mockResolvedValueOnce([]);
 
     await forkComponentCommand(mockUri);
 
@@ -107,6 +109,26 @@ describe('forkComponentCommand', () => {
     // );
   });
 
+  it('should name the forked directory in the configured directory case', async () => {
+    (findConfig as jest.Mock).mockResolvedValueOnce({
+      config: { directoryCase: 'kebab' },
+      configDir: '/path/to/project',
+    });
+    (vscode.window.showInputBox as jest.Mock).mockResolvedValueOnce('TargetComponent');
+    (fs.readdir as jest.Mock).mockResolvedValueOnce(['source-component.tsx']);
+
+    await forkComponentCommand(vscode.Uri.file('/path/to/components/source-component'));
+
+    expect(fs.mkdir).toHaveBeenCalledWith(
+      path.join('/path/to/components', 'target-component'),
+      expect.anything(),
+    );
+    expect(fs.writeFile).toHaveBeenCalledWith(
+      path.join('/path/to/components', 'target-component', 'target-component.tsx'),
+      expect.any(String),
+    );
+  });
+
   it('should exit when user cancels component name input', async () => {
     // Mock configuration found
     (findConfig as jest.Mock).mockResolvedValueOnce({
@@ -200,9 +222,7 @@ describe('forkComponentCommand', () => {
       .mockResolvedValueOnce({ isDirectory: () => true }); // For utils directory
 
     // Mock utils subdirectory contents
-    (fs.readdir as jest.Mock)
-      .mockResolvedValueOnce([`${sourceName}.tsx`, 'utils'])
-      .mockResolvedValueOnce(['helpers.ts']);
+    (fs.readdir as jest.Mock).mockResolvedValueOnce(['helpers.ts']);
 
     await forkComponentCommand(mockUri);
 
@@ -243,4 +263,94 @@ describe('forkComponentCommand', () => {
       `Error forking component: ${errorMessage}`,
     );
   });
+
+  it('should remove the partly copied component when a file fails to copy', async () => {
+    (findConfig as jest.Mock).mockResolvedValueOnce({
+      config: {},
+      configDir: '/path/to/project',
+    });
+
+    const targetPath = path.join('/path/to/components', 'TargetComponent');
+    const mockUri = vscode.Uri.file('/path/to/components/SourceComponent');
+    (vscode.window.showInputBox as jest.Mock).mockResolvedValueOnce('TargetComponent');
+
+    (fs.writeFile as jest.Mock)
+      .mockResolvedValueOnce(undefined)
+      .mockRejectedValueOnce(new Error('Disk full'));
+
+    await forkComponentCommand(mockUri);
+
+    expect(fs.unlink).toHaveBeenCalledWith(path.join(targetPath, 'Component.tsx'));
+    expect(fs.rmdir).toHaveBeenCalledWith(targetPath);
+    expect(vscode.window.showErrorMessage).toHaveBeenCalledWith(
+      'Error forking component: Disk full',
+    );
+  });
+
+  it('should copy nothing when the review of the name changes is cancelled', async () => {
+    (findConfig as jest.Mock).mockResolvedValueOnce({
+      config: {},
+      configDir: '/path/to/project',
+    });
+    (vscode.window.showInputBox as jest.Mock).mockResolvedValueOnce('TargetComponent');
+    (fs.readdir as jest.Mock).mockResolvedValueOnce(['SourceComponent.module.css']);
+    (fs.readFile as jest.Mock).mockResolvedValueOnce('.sourcecomponent { color: red; }');
+    (vscode.window.showQuickPick as jest.Mock).mockResolvedValueOnce(undefined);
+
+    await forkComponentCommand(vscode.Uri.file('/path/to/components/SourceComponent'));
+
+    expect(fs.mkdir).not.toHaveBeenCalled();
+    expect(fs.writeFile).not.toHaveBeenCalled();
+    expect(vscode.window.showInformationMessage).not.toHaveBeenCalled();
+  });
+
+  it('should copy binary files without rewriting them', async () => {
+    (findConfig as jest.Mock).mockResolvedValueOnce({
+      config: {},
+      configDir: '/path/to/project',
+    });
+    (vscode.window.showInputBox as jest.Mock).mockResolvedValueOnce('TargetComponent');
+    (fs.readdir as jest.Mock).mockResolvedValueOnce(['SourceComponent.png']);
+
+    await forkComponentCommand(vscode.Uri.file('/path/to/components/SourceComponent'));
+
+    expect(fs.copyFile).toHaveBeenCalledWith(
+      path.join('/path/to/components', 'SourceComponent', 'SourceComponent.png'),
+      path.join('/path/to/components', 'TargetComponent', 'TargetComponent.png'),
+      fs.constants.COPYFILE_EXCL,
+    );
+    expect(fs.readFile).not.toHaveBeenCalled();
+  });
+
+  it('should keep imports of renamed sibling files working', async () => {
+    (findConfig as jest.Mock).mockResolvedValueOnce({ config: {}, configDir: '/path/to/project' });
+    (vscode.window.showInputBox as jest.Mock).mockResolvedValueOnce('Link');
+    (fs.readdir as jest.Mock).mockResolvedValueOnce([
+      'Button.tsx',
+      'useButton.ts',
+      'button.module.css',
+    ]);
+    (fs.readFile as jest.Mock).mockImplementation(async (file: string) =>
+      file.endsWith('Button.tsx') ?
+        [
+          "import { useButton } from './useButton';",
+          "import styles from './button.module.css';",
+        ].join('\n')
+      : '',
+    );
+    // Leave the compound useButton and the lowercase button as they are
+    (vscode.window.showQuickPick as jest.Mock).mockResolvedValueOnce([]);
+
+    await forkComponentCommand(vscode.Uri.file('/path/to/components/Button'));
+
+    const linkDir = path.join('/path/to/components', 'Link');
+    expect(fs.writeFile).toHaveBeenCalledWith(
+      path.join(linkDir, 'Link.tsx'),
+      ["import { useButton } from './useLink';", "import styles from './link.module.css';"].join(
+        '\n',
+      ),
+    );
+    expect(fs.writeFile).toHaveBeenCalledWith(path.join(linkDir, 'useLink.ts'), '');
+    expect(fs.writeFile).toHaveBeenCalledWith(path.join(linkDir, 'link.module.css'), '');
+  });
 });
@@ -6,68 +6,70 @@ import {
   validateComponentName,
   getComponentNamePrompt,
 } from '../utils/configurationUtils';
-import { transform, CaseType } from '../utils/caseUtils';
+import { CaseType, toDirectoryName } from '../utils/caseUtils';
+import { Journal, runJournaled } from '../utils/journalUtils';
+import { readComponentTree, renameEntryPath, reviewNameChanges } from '../utils/renameUtils';
 
 interface ForkOptions {
   sourceName: string;
   targetName: string;
   directory: vscode.Uri;
+  irregularPlurals?: Record<string, string>;
+  directoryCase?: CaseType;
+  rewriteCompoundNames?: boolean;
+  journal: Journal;
 }
 
-async function copyDirectory(
-  sourcePath: string,
-  targetPath: string,
-  sourceName: string,
-  targetName: string,
-) {
-  await fs.mkdir(targetPath, { recursive: true });
-
-  const files = await fs.readdir(sourcePath);
-
-  for (const file of files) {
-    const sourceFilePath = path.join(sourcePath, file);
-    const stats = await fs.stat(sourceFilePath);
-
-    const targetFileName = file.replace(sourceName, targetName);
-    const targetFilePath = path.join(targetPath, targetFileName);
-
-    if (stats.isDirectory()) {
-      await copyDirectory(sourceFilePath, targetFilePath, sourceName, targetName);
-    } else {
-      const content = await fs.readFile(sourceFilePath, 'utf-8');
-
-      const processedContent = (['pascal', 'camel', 'kebab', 'snake'] as CaseType[]).reduce(
-        (acc, caseType) => {
-          const sourceVariant = transform(sourceName, caseType);
-          const targetVariant = transform(targetName, caseType);
-
-          if (sourceVariant && targetVariant) {
-            return acc.replaceAll(sourceVariant, targetVariant);
-          }
-          return acc;
-        },
-        content,
-      );
-
-      await fs.writeFile(targetFilePath, processedContent);
-    }
-  }
-}
-
-async function forkComponent({ sourceName, targetName, directory }: ForkOptions) {
+async function forkComponent({
+  sourceName,
+  targetName,
+  directory,
+  irregularPlurals,
+  directoryCase,
+  rewriteCompoundNames,
+  journal,
+}: ForkOptions): Promise<boolean> {
   const sourcePath = path.join(directory.fsPath, sourceName);
-  const targetPath = path.join(directory.fsPath, targetName);
+  const targetDirectoryName = toDirectoryName(targetName, directoryCase);
+  const targetPath = path.join(directory.fsPath, targetDirectoryName);
 
   try {
     await fs.access(targetPath);
-    throw new Error(`Component '${targetName}' already exists`);
+    throw new Error(`Component '${targetDirectoryName}' already exists`);
   } catch (error) {
     if (!error || (error as { code: string }).code !== 'ENOENT') {
       throw error;
     }
   }
 
-  await copyDirectory(sourcePath, targetPath, sourceName, targetName);
+  // Work out every change before writing anything, as the review can be cancelled
+  const entries = await readComponentTree(sourcePath);
+  const contents = await reviewNameChanges(entries, sourceName, targetName, {
+    oldDirectory: sourcePath,
+    newDirectory: targetPath,
+    irregularPlurals,
+    rewriteCompoundNames,
+  });
+  if (!contents) {
+    return false;
+  }
+
+  await journal.mkdir(targetPath);
+  for (const entry of entries) {
+    const targetEntryPath = path.join(
+      targetPath,
+      renameEntryPath(entry.path, sourceName, targetName, irregularPlurals),
+    );
+    if (entry.isDirectory) {
+      await journal.mkdir(targetEntryPath);
+    } else if (entry.content === undefined) {
+      // Binary files are copied as they are
+      await journal.copyFile(path.join(sourcePath, entry.path), targetEntryPath);
+    } else {
+      await journal.writeFile(targetEntryPath, contents.get(entry.path) ?? entry.content);
+    }
+  }
+  return true;
 }
 
 export const forkComponentCommand = async (uri: vscode.Uri) => {
@@ -84,7 +86,7 @@ export const forkComponentCommand = async (uri: vscode.Uri) => {
   const sourceName = path.basename(uri.fsPath);
   const targetName = await vscode.window.showInputBox({
     prompt: `Fork '${sourceName}' as... ${getComponentNamePrompt()}`,
-    placeHolder: 'e.g., MyComponent, myComponent, my-component, or my_component',
+    placeHolder: 'e.g., MyComponent, my-component, my_component, MY_COMPONENT, or My Component',
     validateInput: validateComponentName,
   });
 
@@ -98,11 +100,21 @@ export const forkComponentCommand = async (uri: vscode.Uri) => {
   }
 
   try {
-    await forkComponent({
-      sourceName,
-      targetName,
-      directory: vscode.Uri.file(path.dirname(uri.fsPath)),
-    });
+    // Removes the partly copied component if any file fails to copy
+    const forked = await runJournaled(`fork ${sourceName} as ${targetName}`, (journal) =>
+      forkComponent({
+        sourceName,
+        targetName,
+        directory: vscode.Uri.file(path.dirname(uri.fsPath)),
+        irregularPlurals: configResult.config.irregularPlurals,
+        directoryCase: configResult.config.directoryCase,
+        rewriteCompoundNames: configResult.config.rewriteCompoundNames,
+        journal,
+      }),
+    );
+    if (!forked) {
+      return;
+    }
 
     vscode.window.showInformationMessage(
       `Successfully forked component '${sourceName}' to '${targetName}'`,
@@ -0,0 +1,184 @@
+import * as vscode from 'vscode';
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import { generateFromManifest } from './generateFromManifest';
+import { findConfig } from '../utils/configurationUtils';
+import { generateFromTemplates } from '../utils/generationUtils';
+import { getBuiltInVariables } from '../utils/contextUtils';
+
+jest.mock('../utils/configurationUtils', () => ({
+  ...jest.requireActual('../utils/configurationUtils'),
+  findConfig: jest.fn(),
+}));
+jest.mock('../utils/generationUtils');
+jest.mock('../utils/contextUtils');
+
+const projectDir = path.join('/path', 'to', 'project');
+const manifestPath = path.join(projectDir, 'checkout.yaml');
+
+const config = {
+  directoryCase: 'kebab',
+  templatesDirectory: 'component-templates',
+  templates: [
+    { source: 'component.tsx.template', label: 'Component', target: 'Component.tsx' },
+    { source: 'hook.ts.template', label: 'Hook', target: 'use{{PascalCaseComponentName}}.ts' },
+  ],
+  defaultTemplateGroup: ['component.tsx.template'],
+  alternateTemplateGroups: [{ label: 'Hook', templates: ['hook.ts.template'], flat: true }],
+  variables: [
+    { name: 'owningTeam', type: 'string' },
+    { name: 'withStyles', type: 'boolean', default: true },
+  ],
+};
+
+function mockManifest(lines: string[]) {
+  (fs.readFile as jest.Mock).mockResolvedValueOnce(lines.join('\n'));
+}
+
+describe('generateFromManifest', () => {
+  beforeEach(() => {
+    (findConfig as jest.Mock).mockResolvedValue({ config, configDir: projectDir });
+    (getBuiltInVariables as jest.Mock).mockResolvedValue({ year: '2026' });
+    (generateFromTemplates as jest.Mock).mockResolvedValue({
+      success: true,
+      addedFiles: ['Component.tsx'],
+      existingFiles: [],
+      overwrittenFiles: [],
+      mergedFiles: [],
+    });
+  });
+
+  it('should ask for a manifest when not run on a file', async () => {
+    (vscode.window.showOpenDialog as jest.Mock).mockResolvedValueOnce(undefined);
+
+    await generateFromManifest();
+
+    expect(vscode.window.showOpenDialog).toHaveBeenCalledWith(
+      expect.objectContaining({ filters: { 'Component manifest': ['json', 'yaml', 'yml'] } }),
+    );
+    expect(fs.readFile).not.toHaveBeenCalled();
+  });
+
+  it('should show an error for an invalid manifest', async () => {
+    mockManifest(['components: []']);
+
+    await generateFromManifest(vscode.Uri.file(manifestPath));
+
+    expect(vscode.window.showErrorMessage).toHaveBeenCalledWith(
+      'Error reading manifest: components must be a non-empty array',
+    );
+    expect(generateFromTemplates).not.toHaveBeenCalled();
+  });
+
+  it('should generate every component with its template group, folder and variables', async () => {
+    mockManifest([
+      'directory: src/checkout',
+      'variables:',
+      '  owningTeam: payments',
+      'components:',
+      '  - name: forms/CartSummary',
+      '  - name: Cart',
+      '    group: Hook',
+      '    directory: src/hooks',
+      '    variables:',
+      '      withStyles: false',
+    ]);
+
+    await generateFromManifest(vscode.Uri.file(manifestPath));
+
+    // The config of each directory is only looked up once
+    expect(findConfig).toHaveBeenCalledTimes(2);
+
+    expect(generateFromTemplates).toHaveBeenCalledWith(
+      'CartSummary',
+      path.join(projectDir, 'src', 'checkout', 'forms'),
+      ['component.tsx.template'],
+      config.templates,
+      path.join(projectDir, 'component-templates'),
+      expect.objectContaining({
+        variables: { year: '2026', owningTeam: 'payments', withStyles: true },
+        directoryCase: 'kebab',
+      }),
+    );
+    expect(generateFromTemplates).toHaveBeenCalledWith(
+      'Cart',
+      path.join(projectDir, 'src', 'hooks'),
+      ['hook.ts.template'],
+      config.templates,
+      path.join(projectDir, 'component-templates'),
+      expect.objectContaining({
+        variables: { year: '2026', owningTeam: 'payments', withStyles: false },
+        flat: true,
+      }),
+    );
+    expect(getBuiltInVariables).toHaveBeenCalledWith({
+      targetDirectory: path.join(projectDir, 'src', 'hooks'),
+      configDir: projectDir,
+      templateGroupLabel: 'Hook',
+    });
+    expect(vscode.window.showInformationMessage).toHaveBeenCalledWith(
+      'Generated 2 component(s) from manifest: 2 file(s) created, 0 skipped, 0 failed.',
+    );
+  });
+
+  it('should report created, skipped and failed files in the output channel', async () => {
+    mockManifest([
+      'variables:',
+      '  owningTeam: payments',
+      'components:',
+      '  - name: CartSummary',
+      '  - name: Checkout',
+      '    group: Page',
+      '  - name: cart-item',
+    ]);
+    (generateFromTemplates as jest.Mock)
+      .mockResolvedValueOnce({
+        success: true,
+        addedFiles: ['CartSummary.tsx'],
+        existingFiles: ['index.ts'],
+        overwrittenFiles: [],
+        mergedFiles: [],
+      })
+      .mockRejectedValueOnce(
+        new Error('Could not generate CartItem.tsx: EACCES: permission denied'),
+      );
+
+    await generateFromManifest(vscode.Uri.file(manifestPath));
+
+    const channel = (vscode.window.createOutputChannel as jest.Mock).mock.results[0].value;
+    const lines = channel.appendLine.mock.calls.map(([line]: [string]) => line);
+    expect(lines).toEqual([
+      'Component Generator Manifest Report:',
+      '====================================',
+      `Manifest: ${manifestPath}`,
+      '',
+      'CartSummary (in .)',
+      '  created: CartSummary.tsx',
+      '  skipped: index.ts (already exists)',
+      '',
+      'Checkout (in .)',
+      '  failed: Template group "Page" not found',
+      '',
+      'cart-item (in .)',
+      '  failed: Could not generate CartItem.tsx: EACCES: permission denied',
+      '',
+      'Summary: 1 file(s) created, 1 skipped, 2 failed',
+    ]);
+    expect(channel.show).toHaveBeenCalled();
+    expect(vscode.window.showWarningMessage).toHaveBeenCalledWith(
+      'Generated 3 component(s) from manifest with problems: 1 file(s) created, 1 skipped, 2 failed. See the output for details.',
+    );
+  });
+
+  it('should fail components missing a value for a variable without a default', async () => {
+    mockManifest(['components:', '  - name: CartSummary']);
+
+    await generateFromManifest(vscode.Uri.file(manifestPath));
+
+    expect(generateFromTemplates).not.toHaveBeenCalled();
+    const channel = (vscode.window.createOutputChannel as jest.Mock).mock.results[0].value;
+    expect(channel.appendLine).toHaveBeenCalledWith(
+      '  failed: Missing values for variables: owningTeam',
+    );
+  });
+});
@@ -0,0 +1,217 @@
+import * as vscode from 'vscode';
+import * as path from 'path';
+import { findConfig, validateComponentPath } from '../utils/configurationUtils';
+import { generateFromTemplates, GenerationResult } from '../utils/generationUtils';
+import { getVariableDefaults } from '../utils/variableUtils';
+import { getBuiltInVariables } from '../utils/contextUtils';
+import { splitComponentPath, toDirectoryName } from '../utils/caseUtils';
+import { Manifest, ManifestComponent, readManifest } from '../utils/manifestUtils';
+import { getConflictResolver } from '../utils/conflictUtils';
+import { Journal, runJournaled } from '../utils/journalUtils';
+import { runGenerationHooks } from '../utils/hooksUtils';
+
+interface ComponentReport {
+  name: string;
+  // Folder the component was created in, relative to the manifest
+  directory: string;
+  result?: GenerationResult;
+  // Why the component could not be generated at all
+  error?: string;
+}
+
+type ConfigResult = Awaited<ReturnType<typeof findConfig>>;
+
+async function pickManifest(): Promise<vscode.Uri | undefined> {
+  const uris = await vscode.window.showOpenDialog({
+    canSelectMany: false,
+    openLabel: 'Generate',
+    filters: { 'Component manifest': ['json', 'yaml', 'yml'] },
+  });
+  return uris?.[0];
+}
+
+async function generateManifestComponent(
+  component: ManifestComponent,
+  manifest: Manifest,
+  manifestDir: string,
+  getConfig: (directory: string) => Promise<ConfigResult>,
+  journal: Journal,
+): Promise<ComponentReport> {
+  const targetDirectory = path.resolve(
+    manifestDir,
+    component.directory ?? manifest.directory ?? '.',
+  );
+  const report: ComponentReport = {
+    name: component.name,
+    directory: path.relative(manifestDir, targetDirectory) || '.',
+  };
+
+  const nameError = validateComponentPath(component.name);
+  if (nameError) {
+    return { ...report, error: nameError };
+  }
+
+  const configResult = await getConfig(targetDirectory);
+  if (!configResult) {
+    return { ...report, error: 'No valid configuration found for this directory' };
+  }
+  const { config, configDir } = configResult;
+
+  let templateSources = config.defaultTemplateGroup;
+  let directoryCase = config.directoryCase;
+  let flat: boolean | undefined;
+  if (component.group) {
+    const group = config.alternateTemplateGroups?.find(({ label }) => label === component.group);
+    if (!group) {
+      return { ...report, error: `Template group "${component.group}" not found` };
+    }
+    templateSources = group.templates;
+    directoryCase = group.directoryCase ?? directoryCase;
+    flat = group.flat;
+  }
+
+  const values = {
+    ...getVariableDefaults(config.variables),
+    ...manifest.variables,
+    ...component.variables,
+  };
+  const missing = (config.variables ?? [])
+    .filter((variable) => values[variable.name] === undefined)
+    .map((variable) => variable.name);
+  if (missing.length > 0) {
+    return { ...report, error: `Missing values for variables: ${missing.join(', ')}` };
+  }
+
+  // Parent folders in the name are created in the directory case
+  const { folders, name: componentName } = splitComponentPath(component.name);
+  const componentDirectory = path.join(
+    targetDirectory,
+    ...folders.map((folder) => toDirectoryName(folder, directoryCase)),
+  );
+
+  const builtIns = await getBuiltInVariables({
+    targetDirectory: componentDirectory,
+    configDir,
+    templateGroupLabel: component.group ?? 'Default',
+  });
+
+  try {
+    const result = await generateFromTemplates(
+      componentName,
+      componentDirectory,
+      templateSources,
+      config.templates,
+      path.join(configDir, config.templatesDirectory),
+      {
+        variables: { ...builtIns, ...values },
+        irregularPlurals: config.irregularPlurals,
+        engine: config.engine,
+        directoryCase,
+        flat,
+        resolveConflict: getConflictResolver(config.onConflict),
+        journal,
+        onGenerated: (files) =>
+          runGenerationHooks(config.hooks, files, { cwd: configDir, journal }),
+      },
+    );
+    return { ...report, result };
+  } catch (error) {
+    return { ...report, error: error instanceof Error ? error.message : String(error) };
+  }
+}
+
+function writeReport(
+  channel: vscode.OutputChannel,
+  manifestPath: string,
+  reports: ComponentReport[],
+) {
+  channel.clear();
+  channel.appendLine('Component Generator Manifest Report:');
+  channel.appendLine('====================================');
+  channel.appendLine(`Manifest: ${manifestPath}`);
+
+  for (const { name, directory, result, error } of reports) {
+    channel.appendLine('');
+    channel.appendLine(`${name} (in ${directory})`);
+    if (error) {
+      channel.appendLine(`  failed: ${error}`);
+      continue;
+    }
+    result?.addedFiles.forEach((file) => channel.appendLine(`  created: ${file}`));
+    result?.overwrittenFiles.forEach((file) => channel.appendLine(`  overwritten: ${file}`));
+    result?.existingFiles.forEach((file) =>
+      channel.appendLine(`  skipped: ${file} (already exists)`),
+    );
+    result?.mergedFiles.forEach((file) => channel.appendLine(`  opened to merge: ${file}`));
+  }
+}
+
+export async function generateFromManifest(uri?: vscode.Uri) {
+  const manifestUri = uri?.fsPath ? uri : await pickManifest();
+  if (!manifestUri) {
+    return;
+  }
+  const manifestPath = manifestUri.fsPath;
+
+  let manifest: Manifest;
+  try {
+    manifest = await readManifest(manifestPath);
+  } catch (error) {
+    vscode.window.showErrorMessage(
+      `Error reading manifest: ${error instanceof Error ? error.message : String(error)}`,
+    );
+    return;
+  }
+
+  // Look up each directory's config once, so a broken config is only reported once
+  const configs = new Map<string, Promise<ConfigResult>>();
+  const getConfig = (directory: string) => {
+    if (!configs.has(directory)) {
+      configs.set(directory, findConfig(directory));
+    }
+    return configs.get(directory)!;
+  };
+
+  const manifestDir = path.dirname(manifestPath);
+  const reports: ComponentReport[] = [];
+  // The whole manifest is undone as one operation
+  await runJournaled(`generate from ${path.basename(manifestPath)}`, async (journal) => {
+    for (const component of manifest.components) {
+      reports.push(
+        await generateManifestComponent(component, manifest, manifestDir, getConfig, journal),
+      );
+    }
+  });
+
+  const channel = vscode.window.createOutputChannel('Component Generator');
+  writeReport(channel, manifestPath, reports);
+
+  const count = (files: (result: GenerationResult) => string[]) =>
+    reports.reduce((sum, { result }) => sum + (result ? files(result).length : 0), 0);
+  const created = count((result) => result.addedFiles);
+  const overwritten = count((result) => result.overwrittenFiles);
+  const skipped = count((result) => result.existingFiles);
+  const merged = count((result) => result.mergedFiles);
+  const failed = reports.filter(({ error }) => error).length;
+  const summary = [
+    `${created} file(s) created`,
+    ...(overwritten > 0 ? [`${overwritten} overwritten`] : []),
+    `${skipped} skipped`,
+    ...(merged > 0 ? [`${merged} opened to merge`] : []),
+    `${failed} failed`,
+  ].join(', ');
+
+  channel.appendLine('');
+  channel.appendLine(`Summary: ${summary}`);
+  channel.show(true);
+
+  if (failed > 0) {
+    vscode.window.showWarningMessage(
+      `Generated ${reports.length} component(s) from manifest with problems: ${summary}. See the output for details.`,
+    );
+  } else {
+    vscode.window.showInformationMessage(
+      `Generated ${reports.length} component(s) from manifest: ${summary}.`,
+    );
+  }
+}
@@ -3,20 +3,65 @@ import * as fs from 'fs/promises';
 import * as path from 'path';
 import { renameCommand } from './rename';
 import { findConfig, validateComponentName } from '../utils/configurationUtils';
-
-jest.mock('../utils/configurationUtils');
+import { clearLastJournal } from '../utils/journalUtils';
+import { DEFAULT_REFERENCE_FILES } from '../utils/referenceUtils';
+
+jest.mock('../utils/configurationUtils', () => ({
+  ...jest.requireActual('../utils/configurationUtils'),
+  findConfig: jest.fn(),
+  validateComponentName: jest.fn(),
+}));
+jest.mock('../utils/journalUtils');
 jest.mock('fs/promises');
 
+// The single edit the rename builds, the last one constructed
+const getRenameEdit = () => {
+  const { results } = (vscode.WorkspaceEdit as jest.Mock).mock;
+  return results[results.length - 1].value;
+};
+
+// Replacements made in a file, applied to its content
+function applyReplacements(edit: ReturnType<typeof getRenameEdit>, file: string, content: string) {
+  const offset = ({ line, character }: vscode.Position) =>
+    content.split('\n').slice(0, line).join('\n').length + (line > 0 ? 1 : 0) + character;
+  return (edit.replace.mock.calls as [vscode.Uri, vscode.Range, string][])
+    .filter(([uri]) => uri.fsPath === file)
+    .sort(([, a], [, b]) => offset(b.start) - offset(a.start))
+    .reduce(
+      (result, [, range, newText]) =>
+        result.slice(0, offset(range.start)) + newText + result.slice(offset(range.end)),
+      content,
+    );
+}
+
+// Documents show the given text when open in an editor, and otherwise the content the
+// component was read with
+function mockDocuments(texts: Record<string, string> = {}) {
+  (vscode.workspace.openTextDocument as jest.Mock).mockImplementation(async (uri: vscode.Uri) => {
+    const { calls, results } = (fs.readFile as jest.Mock).mock;
+    const index = calls.map(([file]) => file).lastIndexOf(uri.fsPath);
+    const text = texts[uri.fsPath] ?? (index === -1 ? '' : await results[index].value);
+    return {
+      uri,
+      getText: () => text,
+      positionAt: (offset: number) => {
+        const lines = text.slice(0, offset).split('\n');
+        return { line: lines.length - 1, character: lines[lines.length - 1].length };
+      },
+    };
+  });
+}
+
 describe('renameCommand', () => {
   beforeEach(() => {
     jest.clearAllMocks();
 
     (validateComponentName as jest.Mock).mockReturnValue(null);
 
-    (fs.rename as jest.Mock).mockResolvedValue(undefined);
     (fs.readdir as jest.Mock).mockResolvedValue(['Component.tsx', 'index.ts']);
+    (fs.stat as jest.Mock).mockResolvedValue({ isDirectory: () => false });
     (fs.readFile as jest.Mock).mockResolvedValue('// Mock file content');
-    (fs.writeFile as jest.Mock).mockResolvedValue(undefined);
+    mockDocuments();
   });
 
   it('should show error when URI is not provided', async () => {
@@ -37,7 +82,7 @@ describe('renameCommand', () => {
     expect(vscode.window.showInputBox).not.toHaveBeenCalled();
   });
 
-  it('should prompt for new component name and perform rename', async () => {
+  it('should prompt for new component name and apply the rename as one edit', async () => {
     (findConfig as jest.Mock).mockResolvedValueOnce({
       config: {},
       configDir: '/path/to/project',
@@ -49,61 +94,219 @@ describe('renameCommand', () => {
 
     (vscode.window.showInputBox as jest.Mock).mockResolvedValueOnce(newName);
 
-    const mockWorkspaceEdit = new vscode.WorkspaceEdit();
-    (vscode.commands.executeCommand as jest.Mock).mockResolvedValueOnce(mockWorkspaceEdit);
-
-    (fs.readdir as jest.Mock)
-      .mockResolvedValueOnce([`${oldName}.tsx`, 'index.ts']) // Directory read for renaming files
-      .mockResolvedValueOnce([`${newName}.tsx`, 'index.ts']); // Directory read for updating content
+    (fs.readdir as jest.Mock).mockResolvedValueOnce([`${oldName}.tsx`, 'index.ts']);
 
     (fs.readFile as jest.Mock).mockResolvedValue(
       `import styles from './${oldName}.module.scss';
 
       type ${oldName}Props = {};
-      
+
       const ${oldName} = ({}: ${oldName}Props) => {
         return <div className={styles.${oldName.toLowerCase()}}></div>;
       };
-      
+
       export default ${oldName};`,
     );
-
-    (vscode.workspace.findFiles as jest.Mock).mockResolvedValueOnce([]);
+    // Leave the lowercase styles.mycomponent as it is
+    (vscode.window.showQuickPick as jest.Mock).mockResolvedValueOnce([]);
 
     await renameCommand(mockUri);
 
     expect(vscode.window.showInputBox).toHaveBeenCalledWith(
       expect.objectContaining({
-        prompt: 'New component name',
+        prompt: expect.stringContaining(`Rename '${oldName}' to...`),
         value: oldName,
         validateInput: validateComponentName,
       }),
     );
 
-    expect(fs.rename).toHaveBeenCalledWith(
-      path.join('/path/to/components', oldName),
-      path.join('/path/to/components', newName),
+    const edit = getRenameEdit();
+    const oldPath = path.join('/path/to/components', oldName);
+    expect(edit.renameFile).toHaveBeenCalledWith(
+      { fsPath: path.join(oldPath, `${oldName}.tsx`) },
+      { fsPath: path.join(oldPath, `${newName}.tsx`) },
+      undefined,
+      expect.objectContaining({ needsConfirmation: true }),
     );
+    // The directory is renamed last, after the files in it
+    expect(edit.renameFile).toHaveBeenLastCalledWith(
+      { fsPath: oldPath },
+      { fsPath: path.join('/path/to/components', newName) },
+      undefined,
+      expect.objectContaining({ needsConfirmation: true }),
+    );
+    expect(edit.replace).toHaveBeenCalledWith(
+      { fsPath: path.join(oldPath, 'index.ts') },
+      expect.anything(),
+      newName,
+      expect.objectContaining({ needsConfirmation: true }),
+    );
+    // Nothing is written except through the edit
+    expect(fs.rename).not.toHaveBeenCalled();
+    expect(fs.writeFile).not.toHaveBeenCalled();
 
-    expect(fs.rename).toHaveBeenCalledWith(
-      path.join('/path/to/components', newName, `${oldName}.tsx`),
-      path.join('/path/to/components', newName, `${newName}.tsx`),
+    expect(vscode.workspace.applyEdit).toHaveBeenCalledWith(edit, { isRefactoring: true });
+    expect(clearLastJournal).toHaveBeenCalled();
+    expect(vscode.window.showInformationMessage).toHaveBeenCalledWith(
+      `Successfully renamed component from ${oldName} to ${newName}`,
     );
+  });
+
+  it('should name the renamed directory in the configured directory case', async () => {
+    (findConfig as jest.Mock).mockResolvedValueOnce({
+      config: { directoryCase: 'pascal' },
+      configDir: '/path/to/project',
+    });
+    (vscode.window.showInputBox as jest.Mock).mockResolvedValueOnce('new-component');
+    (fs.readdir as jest.Mock).mockResolvedValue([]);
+
+    await renameCommand(vscode.Uri.file('/path/to/components/my-component'));
 
-    expect(fs.writeFile).toHaveBeenNthCalledWith(
-      1,
-      expect.stringContaining(newName + '.tsx'),
-      expect.stringContaining(newName),
+    expect(getRenameEdit().renameFile).toHaveBeenCalledWith(
+      { fsPath: path.join('/path/to/components', 'my-component') },
+      { fsPath: path.join('/path/to/components', 'NewComponent') },
+      undefined,
+      expect.anything(),
     );
+  });
+
+  it('should do nothing when the new name gives the same directory', async () => {
+    (findConfig as jest.Mock).mockResolvedValueOnce({
+      config: { directoryCase: 'pascal' },
+      configDir: '/path/to/project',
+    });
+    (vscode.window.showInputBox as jest.Mock).mockResolvedValueOnce('my-component');
+
+    await renameCommand(vscode.Uri.file('/path/to/components/MyComponent'));
+
+    expect(vscode.workspace.applyEdit).not.toHaveBeenCalled();
+  });
+
+  it('should rewrite every case variant of the component name', async () => {
+    (findConfig as jest.Mock).mockResolvedValueOnce({
+      config: { rewriteCompoundNames: true },
+      configDir: '/path/to/project',
+    });
+    // Accept every occurrence listed for review
+    (vscode.window.showQuickPick as jest.Mock).mockImplementationOnce(async (items) => items);
+
+    const mockUri = vscode.Uri.file('/path/to/components/MyComponent');
 
-    expect(fs.writeFile).toHaveBeenNthCalledWith(
-      2,
-      expect.stringContaining('index.ts'),
-      expect.stringContaining(newName),
+    (vscode.window.showInputBox as jest.Mock).mockResolvedValueOnce('NewComponent');
+
+    (fs.readdir as jest.Mock).mockResolvedValueOnce(['MyComponent.stories.tsx']);
+
+    const content = [
+      "export default { title: 'My Component' };",
+      "export const MY_COMPONENT_KEY = 'my.component';",
+      "const className = 'mycomponent';",
+      "const header = 'My-Component';",
+    ].join('\n');
+    (fs.readFile as jest.Mock).mockResolvedValueOnce(content);
+
+    await renameCommand(mockUri);
+
+    expect(
+      applyReplacements(
+        getRenameEdit(),
+        path.join('/path/to/components', 'MyComponent', 'MyComponent.stories.tsx'),
+        content,
+      ),
+    ).toBe(
+      [
+        "export default { title: 'New Component' };",
+        "export const NEW_COMPONENT_KEY = 'new.component';",
+        "const className = 'newcomponent';",
+        "const header = 'New-Component';",
+      ].join('\n'),
     );
+  });
 
-    expect(vscode.window.showInformationMessage).toHaveBeenCalledWith(
-      `Successfully renamed component from ${oldName} to ${newName}`,
+  it('should rewrite files with unsaved changes as they are in the editor', async () => {
+    (findConfig as jest.Mock).mockResolvedValueOnce({
+      config: {},
+      configDir: '/path/to/project',
+    });
+    (vscode.window.showInputBox as jest.Mock).mockResolvedValueOnce('NewComponent');
+    (fs.readdir as jest.Mock).mockResolvedValueOnce(['index.ts']);
+    (fs.readFile as jest.Mock).mockResolvedValueOnce("export * from './MyComponent';");
+
+    const indexFile = path.join('/path/to/components', 'MyComponent', 'index.ts');
+    const unsaved = "// Unsaved\nexport { MyComponent as default } from './MyComponent';";
+    mockDocuments({ [indexFile]: unsaved });
+
+    await renameCommand(vscode.Uri.file('/path/to/components/MyComponent'));
+
+    expect(applyReplacements(getRenameEdit(), indexFile, unsaved)).toBe(
+      "// Unsaved\nexport { NewComponent as default } from './NewComponent';",
+    );
+  });
+
+  it('should rename and rewrite nested folders, leaving binary files as they are', async () => {
+    (findConfig as jest.Mock).mockResolvedValueOnce({
+      config: {},
+      configDir: '/path/to/project',
+    });
+    (vscode.window.showInputBox as jest.Mock).mockResolvedValueOnce('NewComponent');
+
+    // In-memory component tree that the edit is applied to
+    const componentsDir = path.join('/path', 'to', 'components');
+    let files: Record<string, string> = {
+      [path.join('MyComponent', 'MyComponent.tsx')]: 'export const MyComponent = 1;',
+      [path.join('MyComponent', '__tests__', 'MyComponent.test.tsx')]:
+        "describe('MyComponent', () => {});",
+      [path.join('MyComponent', '__tests__', '__snapshots__', 'MyComponent.test.tsx.snap')]:
+        'exports[`MyComponent renders 1`] = `<div class="my-component" />`;',
+      [path.join('MyComponent', 'assets', 'MyComponent.png')]: 'MyComponent',
+      [path.join('MyComponent', 'assets', 'MyComponent.bin')]: '\0MyComponent',
+    };
+    const relative = (fullPath: string) => path.relative(componentsDir, fullPath);
+    const children = (dir: string) =>
+      Object.keys(files).filter((file) => file.startsWith(relative(dir) + path.sep));
+
+    (fs.readdir as jest.Mock).mockImplementation(async (dir: string) => [
+      ...new Set(
+        children(dir).map((file) => file.split(path.sep)[relative(dir).split(path.sep).length]),
+      ),
+    ]);
+    (fs.stat as jest.Mock).mockImplementation(async (entry: string) => ({
+      isDirectory: () => children(entry).length > 0,
+    }));
+    (fs.readFile as jest.Mock).mockImplementation(async (file: string) => files[relative(file)]);
+
+    // Text edits go first, then the renames in the order they were added
+    (vscode.workspace.applyEdit as jest.Mock).mockImplementationOnce(async (edit) => {
+      for (const file of Object.keys(files)) {
+        files[file] = applyReplacements(edit, path.join(componentsDir, file), files[file]);
+      }
+      for (const [from, to] of edit.renameFile.mock.calls as [vscode.Uri, vscode.Uri][]) {
+        files = Object.fromEntries(
+          Object.entries(files).map(([file, content]) => [
+            file === relative(from.fsPath) || file.startsWith(relative(from.fsPath) + path.sep) ?
+              relative(to.fsPath) + file.slice(relative(from.fsPath).length)
+            : file,
+            content,
+          ]),
+        );
+      }
+      return true;
+    });
+
+    await renameCommand(vscode.Uri.file(path.join(componentsDir, 'MyComponent')));
+
+    expect(files).toEqual({
+      [path.join('NewComponent', 'NewComponent.tsx')]: 'export const NewComponent = 1;',
+      [path.join('NewComponent', '__tests__', 'NewComponent.test.tsx')]:
+        "describe('NewComponent', () => {});",
+      [path.join('NewComponent', '__tests__', '__snapshots__', 'NewComponent.test.tsx.snap')]:
+        'exports[`NewComponent renders 1`] = `<div class="new-component" />`;',
+      // Binary files are renamed but their content is never rewritten
+      [path.join('NewComponent', 'assets', 'NewComponent.png')]: 'MyComponent',
+      [path.join('NewComponent', 'assets', 'NewComponent.bin')]: '\0MyComponent',
+    });
+    expect(fs.readFile).not.toHaveBeenCalledWith(
+      path.join(componentsDir, 'MyComponent', 'assets', 'MyComponent.png'),
+      'utf-8',
     );
   });
 
@@ -120,7 +323,7 @@ describe('renameCommand', () => {
 
     await renameCommand(mockUri);
 
-    expect(fs.rename).not.toHaveBeenCalled();
+    expect(vscode.workspace.applyEdit).not.toHaveBeenCalled();
     expect(vscode.commands.executeCommand).not.toHaveBeenCalled();
   });
 
@@ -136,7 +339,7 @@ describe('renameCommand', () => {
 
     await renameCommand(mockUri);
 
-    expect(fs.rename).not.toHaveBeenCalled();
+    expect(vscode.workspace.applyEdit).not.toHaveBeenCalled();
     expect(vscode.commands.executeCommand).not.toHaveBeenCalled();
   });
 
@@ -152,19 +355,18 @@ describe('renameCommand', () => {
 
     (vscode.window.showInputBox as jest.Mock).mockResolvedValueOnce(newName);
 
-    (fs.readdir as jest.Mock)
-      .mockResolvedValueOnce([`${oldName}.tsx`, 'index.ts'])
-      .mockResolvedValueOnce([`${newName}.tsx`, 'index.ts']);
+    (fs.readdir as jest.Mock).mockResolvedValueOnce([`${oldName}.tsx`, 'index.ts']);
 
-    const mockImportFile = vscode.Uri.file('/path/to/components/App.tsx');
-    (vscode.workspace.findFiles as jest.Mock).mockResolvedValueOnce([mockImportFile]);
+    const mockImportFile = vscode.Uri.file('/path/to/App.tsx');
+    // Files in the component itself are rewritten by the rename, not as imports
+    const componentFile = vscode.Uri.file(`/path/to/components/${oldName}/index.ts`);
+    (vscode.workspace.findFiles as jest.Mock).mockResolvedValueOnce([
+      componentFile,
+      mockImportFile,
+    ]);
 
-    const mockDocument = {
-      uri: mockImportFile,
-      getText: jest.fn().mockReturnValue(`import ${oldName} from './components/${oldName}'`),
-      positionAt: jest.fn().mockImplementation((index) => ({ line: 0, character: index })),
-    };
-    (vscode.workspace.openTextDocument as jest.Mock).mockResolvedValueOnce(mockDocument);
+    const importText = `import ${oldName} from './components/${oldName}';`;
+    mockDocuments({ [mockImportFile.fsPath]: importText });
 
     const mockEdit = new vscode.WorkspaceEdit();
     mockEdit.entries = jest.fn().mockReturnValue([
@@ -180,12 +382,18 @@ describe('renameCommand', () => {
           },
         ],
       ],
+      [componentFile, [{ range: { start: { line: 0, character: 0 } }, newText: newName }]],
     ]);
     (vscode.commands.executeCommand as jest.Mock).mockResolvedValueOnce(mockEdit);
 
     await renameCommand(mockUri);
 
-    expect(vscode.workspace.findFiles).toHaveBeenCalledWith('**/*.{ts,tsx}', '**/node_modules/**');
+    expect(vscode.workspace.findFiles).toHaveBeenCalledWith(
+      DEFAULT_REFERENCE_FILES[0],
+      '**/node_modules/**',
+    );
+    // The component's two files are opened for the rename, but not searched for imports
+    expect(vscode.workspace.openTextDocument).toHaveBeenCalledTimes(3);
 
     expect(vscode.commands.executeCommand).toHaveBeenCalledWith(
       'vscode.executeDocumentRenameProvider',
@@ -194,7 +402,90 @@ describe('renameCommand', () => {
       newName,
     );
 
-    expect(vscode.workspace.applyEdit).toHaveBeenCalled();
+    const edit = getRenameEdit();
+    const pathStart = importText.indexOf('./components');
+    expect(edit.replace).toHaveBeenCalledWith(
+      mockImportFile,
+      {
+        start: { line: 0, character: pathStart },
+        end: { line: 0, character: pathStart + `./components/${oldName}`.length },
+      },
+      `./components/${newName}`,
+      { needsConfirmation: true, label: `Update references to ${oldName}` },
+    );
+    expect(edit.replace).toHaveBeenCalledWith(mockImportFile, expect.anything(), newName, {
+      needsConfirmation: true,
+      label: `Update references to ${oldName}`,
+    });
+    expect(edit.replace).not.toHaveBeenCalledWith(
+      componentFile,
+      expect.anything(),
+      newName,
+      expect.anything(),
+    );
+    expect(vscode.workspace.applyEdit).toHaveBeenCalledWith(edit, { isRefactoring: true });
+  });
+
+  it('should keep tsconfig path aliases when updating imports', async () => {
+    (findConfig as jest.Mock).mockResolvedValueOnce({
+      config: {},
+      configDir: '/path/to/project',
+    });
+    (vscode.window.showInputBox as jest.Mock).mockResolvedValueOnce('NewComponent');
+
+    const tsconfigPath = path.join('/path', 'tsconfig.json');
+    (fs.readFile as jest.Mock).mockImplementation(async (filePath: string) =>
+      filePath === tsconfigPath ?
+        JSON.stringify({ compilerOptions: { baseUrl: '.', paths: { '@/*': ['to/*'] } } })
+      : '// Mock file content',
+    );
+
+    const importFile = vscode.Uri.file('/path/to/pages/Home.tsx');
+    (vscode.workspace.findFiles as jest.Mock).mockResolvedValueOnce([importFile]);
+    const importText = "import { Card } from '@/components/OldComponent/Card';";
+    mockDocuments({ [importFile.fsPath]: importText });
+
+    await renameCommand(vscode.Uri.file('/path/to/components/OldComponent'));
+
+    const pathStart = importText.indexOf('@/');
+    expect(getRenameEdit().replace).toHaveBeenCalledWith(
+      importFile,
+      {
+        start: { line: 0, character: pathStart },
+        end: { line: 0, character: pathStart + '@/components/OldComponent/Card'.length },
+      },
+      '@/components/NewComponent/Card',
+      expect.objectContaining({ needsConfirmation: true }),
+    );
+  });
+
+  it('should rename imported bindings in the case they are written in', async () => {
+    (findConfig as jest.Mock).mockResolvedValueOnce({
+      config: { directoryCase: 'kebab' },
+      configDir: '/path/to/project',
+    });
+    (vscode.window.showInputBox as jest.Mock).mockResolvedValueOnce('my-link');
+    (fs.readdir as jest.Mock).mockResolvedValueOnce(['index.ts']);
+
+    const importFile = vscode.Uri.file('/path/to/App.tsx');
+    (vscode.workspace.findFiles as jest.Mock).mockResolvedValueOnce([importFile]);
+    const importText = "import { MyButton } from './components/my-button';";
+    mockDocuments({ [importFile.fsPath]: importText });
+
+    await renameCommand(vscode.Uri.file('/path/to/components/my-button'));
+
+    expect(vscode.commands.executeCommand).toHaveBeenCalledWith(
+      'vscode.executeDocumentRenameProvider',
+      importFile,
+      { line: 0, character: importText.indexOf('MyButton') },
+      'MyLink',
+    );
+    expect(getRenameEdit().replace).toHaveBeenCalledWith(
+      importFile,
+      expect.anything(),
+      './components/my-link',
+      expect.objectContaining({ needsConfirmation: true }),
+    );
   });
 
   it('should handle errors during rename', async () => {
@@ -209,16 +500,48 @@ describe('renameCommand', () => {
 
     (vscode.window.showInputBox as jest.Mock).mockResolvedValueOnce(newName);
 
-    const errorMessage = 'Failed to rename component';
-    (fs.rename as jest.Mock).mockRejectedValueOnce(new Error(errorMessage));
+    const errorMessage = 'Failed to read component';
+    (fs.readdir as jest.Mock).mockRejectedValueOnce(new Error(errorMessage));
 
     await renameCommand(mockUri);
 
+    expect(vscode.workspace.applyEdit).not.toHaveBeenCalled();
     expect(vscode.window.showErrorMessage).toHaveBeenCalledWith(
       `Error renaming component: ${errorMessage}`,
     );
   });
 
+  it('should not report success when the refactor preview is discarded', async () => {
+    (findConfig as jest.Mock).mockResolvedValueOnce({
+      config: {},
+      configDir: '/path/to/project',
+    });
+    (vscode.window.showInputBox as jest.Mock).mockResolvedValueOnce('NewComponent');
+    (vscode.workspace.applyEdit as jest.Mock).mockResolvedValueOnce(false);
+
+    await renameCommand(vscode.Uri.file('/path/to/components/OldComponent'));
+
+    expect(clearLastJournal).not.toHaveBeenCalled();
+    expect(vscode.window.showInformationMessage).not.toHaveBeenCalled();
+    expect(vscode.window.showErrorMessage).not.toHaveBeenCalled();
+  });
+
+  it('should change nothing when the review of the name changes is cancelled', async () => {
+    (findConfig as jest.Mock).mockResolvedValueOnce({
+      config: {},
+      configDir: '/path/to/project',
+    });
+    (vscode.window.showInputBox as jest.Mock).mockResolvedValueOnce('NewComponent');
+    (fs.readdir as jest.Mock).mockResolvedValueOnce(['OldComponent.module.css']);
+    (fs.readFile as jest.Mock).mockResolvedValueOnce('.oldcomponent { color: red; }');
+    (vscode.window.showQuickPick as jest.Mock).mockResolvedValueOnce(undefined);
+
+    await renameCommand(vscode.Uri.file('/path/to/components/OldComponent'));
+
+    expect(vscode.workspace.findFiles).not.toHaveBeenCalled();
+    expect(vscode.workspace.applyEdit).not.toHaveBeenCalled();
+  });
+
   it('should validate the new component name', async () => {
     (findConfig as jest.Mock).mockResolvedValueOnce({
       config: {},
@@ -239,6 +562,6 @@ describe('renameCommand', () => {
 
     await renameCommand(mockUri);
 
-    expect(fs.rename).not.toHaveBeenCalled();
+    expect(vscode.workspace.applyEdit).not.toHaveBeenCalled();
   });
 });
@@ -1,18 +1,75 @@
 import * as vscode from 'vscode';
-import * as fs from 'fs/promises';
 import * as path from 'path';
-import { findConfig, validateComponentName } from '../utils/configurationUtils';
-import { transform, detectCase, CaseType } from '../utils/caseUtils';
+import {
+  findConfig,
+  getComponentNamePrompt,
+  validateComponentName,
+} from '../utils/configurationUtils';
+import { CaseType, detectCase, toDirectoryName, transform } from '../utils/caseUtils';
+import { clearLastJournal } from '../utils/journalUtils';
+import { findPackageAliases, findPathAliases, PathAlias } from '../utils/aliasUtils';
+import {
+  findModuleReferences,
+  findReferenceFiles,
+  retargetReference,
+} from '../utils/referenceUtils';
+import {
+  ComponentEntry,
+  readComponentTree,
+  renameEntryPath,
+  reviewNameOccurrences,
+} from '../utils/renameUtils';
 
 interface RenameOptions {
   oldName: string;
   newName: string;
   directory: vscode.Uri;
+  irregularPlurals?: Record<string, string>;
+  directoryCase?: CaseType;
+  rewriteCompoundNames?: boolean;
+  referenceFiles?: string[];
 }
 
-async function updateImportReferences(oldName: string, newName: string) {
-  const workspaceEdit = new vscode.WorkspaceEdit();
-  const files = await vscode.workspace.findFiles('**/*.{ts,tsx}', '**/node_modules/**');
+// Every change is listed in the Refactor Preview, where it can be unticked before applying
+function needsConfirmation(label: string): vscode.WorkspaceEditEntryMetadata {
+  return { needsConfirmation: true, label };
+}
+
+// Cases that give valid identifiers, in the order imported bindings are matched in
+const BINDING_CASES: CaseType[] = ['pascal', 'camel', 'constant', 'snake', 'flat'];
+
+// Find a binding named after the component in any identifier case, e.g. MyButton imported
+// from ./my-button, along with the new name in the same case
+function findBinding(
+  text: string,
+  oldName: string,
+  newName: string,
+): { index: number; newBinding: string } | undefined {
+  for (const caseType of BINDING_CASES) {
+    const oldBinding = transform(oldName, caseType);
+    const newBinding = transform(newName, caseType);
+    const match = oldBinding && new RegExp(`(?<![\\w$])${oldBinding}(?![\\w$])`).exec(text);
+    if (match && newBinding) {
+      return { index: match.index, newBinding };
+    }
+  }
+  return undefined;
+}
+
+function isInside(directory: string, filePath: string): boolean {
+  const relative = path.relative(directory, filePath);
+  return !relative.startsWith('..') && !path.isAbsolute(relative);
+}
+
+// Point every module reference into the component at its new path, and rename imported
+// bindings named after it
+async function updateReferences(
+  workspaceEdit: vscode.WorkspaceEdit,
+  { oldName, newName, directory, irregularPlurals, directoryCase, referenceFiles }: RenameOptions,
+) {
+  const oldPath = path.join(directory.fsPath, oldName);
+  const newPath = path.join(directory.fsPath, toDirectoryName(newName, directoryCase));
+  const metadata = needsConfirmation(`Update references to ${oldName}`);
 
   // Detect the case types of the old and new names
   const oldCase = detectCase(oldName);
@@ -22,101 +79,141 @@ async function updateImportReferences(oldName: string, newName: string) {
     throw new Error('Invalid component name format');
   }
 
-  for (const file of files) {
+  // The same binding can be renamed from several imports, e.g. a named export
+  const renamedRanges = new Set<string>();
+  // Imports of the component's own package, resolved through its exports
+  const packageAliases = await findPackageAliases(oldPath);
+  const pathAliasCache = new Map<string, Promise<PathAlias[]>>();
+
+  for (const file of await findReferenceFiles(referenceFiles)) {
+    // References between the component's own files are rewritten with the name changes
+    if (isInside(oldPath, file.fsPath)) {
+      continue;
+    }
     const document = await vscode.workspace.openTextDocument(file);
-    const text = document.getText();
-
-    // Match both default and named imports
-    const importPatterns = [
-      // Default import: import OldName from './OldName'
-      `import\\s+(${oldName})\\s+from\\s+['"](.*/${oldName})['"]`,
-      // Named import: import { OldName } from './OldName'
-      `import\\s+{[^}]*\\b(${oldName})\\b[^}]*}\\s+from\\s+['"](.*/${oldName})['"]`,
-    ];
-
-    for (const pattern of importPatterns) {
-      const importRegex = new RegExp(pattern, 'g');
-
-      let match;
-      while ((match = importRegex.exec(text)) !== null) {
-        const importName = match[1]; // The imported variable name
-        const importPath = match[2]; // The path
-        const newImportPath = importPath.replace(oldName, newName);
-
-        // First update the import path
-        const startPos = document.positionAt(match.index);
-        const endPos = document.positionAt(match.index + match[0].length);
-
-        // Keep the original import name temporarily
-        const originalImportStatement = text
-          .substring(match.index, match.index + match[0].length)
-          .replace(importPath, newImportPath);
-
-        workspaceEdit.replace(file, new vscode.Range(startPos, endPos), originalImportStatement);
-
-        // Find the position of the symbol to rename
-        const symbolPos = document.positionAt(match.index + match[0].indexOf(importName));
-
-        // Then trigger a symbol rename
-        const edit = await vscode.commands.executeCommand<vscode.WorkspaceEdit>(
-          'vscode.executeDocumentRenameProvider',
-          document.uri,
-          symbolPos,
-          newName,
-        );
-
-        if (edit) {
-          for (const [uri, edits] of edit.entries()) {
-            edits.forEach((edit) => {
-              workspaceEdit.replace(uri, edit.range, edit.newText);
-            });
+    const aliases = [...(await findPathAliases(file.fsPath, pathAliasCache)), ...packageAliases];
+
+    for (const reference of findModuleReferences(document.getText())) {
+      const specifier = retargetReference(
+        file.fsPath,
+        reference,
+        oldPath,
+        newPath,
+        (relative) => renameEntryPath(relative, oldName, newName, irregularPlurals),
+        aliases,
+      );
+      if (specifier === undefined) {
+        continue;
+      }
+      workspaceEdit.replace(
+        file,
+        new vscode.Range(document.positionAt(reference.start), document.positionAt(reference.end)),
+        specifier,
+        metadata,
+      );
+
+      // Rename an imported symbol named after the component, along with its uses
+      const { bindings } = reference;
+      const binding =
+        reference.kind === 'import' && bindings && findBinding(bindings.text, oldName, newName);
+      if (!bindings || !binding) {
+        continue;
+      }
+
+      const edit = await vscode.commands.executeCommand<vscode.WorkspaceEdit>(
+        'vscode.executeDocumentRenameProvider',
+        document.uri,
+        document.positionAt(bindings.start + binding.index),
+        binding.newBinding,
+      );
+
+      for (const [uri, edits] of edit?.entries() ?? []) {
+        if (isInside(oldPath, uri.fsPath)) {
+          continue;
+        }
+        for (const { range, newText } of edits) {
+          const key = `${uri.fsPath}:${range.start.line}:${range.start.character}`;
+          if (!renamedRanges.has(key)) {
+            renamedRanges.add(key);
+            workspaceEdit.replace(uri, range, newText, metadata);
           }
         }
       }
     }
   }
-
-  await vscode.workspace.applyEdit(workspaceEdit);
 }
 
-async function renameComponent({ oldName, newName, directory }: RenameOptions) {
+// Resolves to undefined when the user cancels the review of the name changes
+async function buildRenameEdit({
+  oldName,
+  newName,
+  directory,
+  irregularPlurals,
+  directoryCase,
+  rewriteCompoundNames,
+}: RenameOptions): Promise<vscode.WorkspaceEdit | undefined> {
   const oldPath = path.join(directory.fsPath, oldName);
-  const newPath = path.join(directory.fsPath, newName);
-
-  // 1. Rename the directory
-  await fs.rename(oldPath, newPath);
-
-  // 2. Rename files within the directory
-  const files = await fs.readdir(newPath);
-  for (const file of files) {
-    const oldFilePath = path.join(newPath, file);
-    const newFileName = file.replace(oldName, newName);
-    const newFilePath = path.join(newPath, newFileName);
-    await fs.rename(oldFilePath, newFilePath);
+  const newPath = path.join(directory.fsPath, toDirectoryName(newName, directoryCase));
+
+  // Read text files through their documents, so edits line up with unsaved changes
+  const documents = new Map<string, vscode.TextDocument>();
+  const entries: ComponentEntry[] = [];
+  for (const entry of await readComponentTree(oldPath)) {
+    if (entry.content === undefined) {
+      entries.push(entry);
+      continue;
+    }
+    const document = await vscode.workspace.openTextDocument(
+      vscode.Uri.file(path.join(oldPath, entry.path)),
+    );
+    documents.set(entry.path, document);
+    entries.push({ ...entry, content: document.getText() });
   }
 
-  // 3. Update file contents
-  const newFiles = await fs.readdir(newPath);
-  for (const file of newFiles) {
-    const filePath = path.join(newPath, file);
-    const content = await fs.readFile(filePath, 'utf-8');
+  const occurrences = await reviewNameOccurrences(entries, oldName, newName, {
+    oldDirectory: oldPath,
+    newDirectory: newPath,
+    irregularPlurals,
+    rewriteCompoundNames,
+  });
+  if (!occurrences) {
+    return undefined;
+  }
 
-    // Replace all case variants of the old name with corresponding case variants of the new name
-    const processedContent = (['pascal', 'camel', 'kebab', 'snake'] as CaseType[]).reduce(
-      (acc, caseType) => {
-        const oldVariant = transform(oldName, caseType);
-        const newVariant = transform(newName, caseType);
+  const edit = new vscode.WorkspaceEdit();
 
-        if (oldVariant && newVariant) {
-          return acc.replaceAll(oldVariant, newVariant);
-        }
-        return acc;
-      },
-      content,
-    );
+  // 1. Rewrite the name in each file, at its current path
+  const contentMetadata = needsConfirmation(`Rename ${oldName} to ${newName} in the component`);
+  for (const [entryPath, document] of documents) {
+    for (const { start, end, replacement } of occurrences.get(entryPath) ?? []) {
+      edit.replace(
+        document.uri,
+        new vscode.Range(document.positionAt(start), document.positionAt(end)),
+        replacement,
+        contentMetadata,
+      );
+    }
+  }
 
-    await fs.writeFile(filePath, processedContent);
+  // 2. Rename files and folders within the component, contents before their folder, so
+  // each rename still holds when others are unticked
+  const fileMetadata = needsConfirmation('Rename files and folders');
+  for (const entry of [...entries].reverse()) {
+    const name = path.basename(entry.path);
+    const newEntryName = renameEntryPath(name, oldName, newName, irregularPlurals);
+    if (newEntryName !== name) {
+      edit.renameFile(
+        vscode.Uri.file(path.join(oldPath, entry.path)),
+        vscode.Uri.file(path.join(oldPath, path.dirname(entry.path), newEntryName)),
+        undefined,
+        fileMetadata,
+      );
+    }
   }
+
+  // 3. Rename the directory
+  edit.renameFile(vscode.Uri.file(oldPath), vscode.Uri.file(newPath), undefined, fileMetadata);
+  return edit;
 }
 
 export const renameCommand = async (uri: vscode.Uri) => {
@@ -132,8 +229,8 @@ export const renameCommand = async (uri: vscode.Uri) => {
 
   const currentName = path.basename(uri.fsPath);
   const newName = await vscode.window.showInputBox({
-    prompt: 'New component name',
-    placeHolder: 'e.g., MyComponent, myComponent, my-component, or my_component',
+    prompt: `Rename '${currentName}' to... ${getComponentNamePrompt()}`,
+    placeHolder: 'e.g., MyComponent, my-component, my_component, MY_COMPONENT, or My Component',
     value: currentName,
     validateInput: validateComponentName,
   });
@@ -142,14 +239,36 @@ export const renameCommand = async (uri: vscode.Uri) => {
     return;
   }
 
+  const { directoryCase, irregularPlurals, rewriteCompoundNames, referenceFiles } =
+    configResult.config;
+  const newDirectoryName = toDirectoryName(newName, directoryCase);
+  if (newDirectoryName === currentName) {
+    return;
+  }
+
   try {
-    await renameComponent({
+    const options: RenameOptions = {
       oldName: currentName,
       newName,
       directory: vscode.Uri.file(path.dirname(uri.fsPath)),
-    });
+      irregularPlurals,
+      directoryCase,
+      rewriteCompoundNames,
+      referenceFiles,
+    };
+    const edit = await buildRenameEdit(options);
+    if (!edit) {
+      return;
+    }
+    await updateReferences(edit, options);
 
-    await updateImportReferences(currentName, newName);
+    // Opens the Refactor Preview. Resolves to false when the preview is discarded
+    if (!(await vscode.workspace.applyEdit(edit, { isRefactoring: true }))) {
+      return;
+    }
+    // A rename is undone with Undo in the editor, and moves the files the last operation
+    // recorded, so that can no longer be undone
+    clearLastJournal();
 
     vscode.window.showInformationMessage(
       `Successfully renamed component from ${currentName} to ${newName}`,
@@ -0,0 +1,57 @@
+import * as vscode from 'vscode';
+import { undoLastOperation } from './undoLastOperation';
+import { getLastJournal } from '../utils/journalUtils';
+
+jest.mock('../utils/journalUtils');
+
+describe('undoLastOperation', () => {
+  const journal = { label: 'create Button', rollback: jest.fn() };
+
+  beforeEach(() => {
+    (getLastJournal as jest.Mock).mockReturnValue(journal);
+    journal.rollback.mockResolvedValue([]);
+  });
+
+  it('should tell the user when there is nothing to undo', async () => {
+    (getLastJournal as jest.Mock).mockReturnValueOnce(undefined);
+
+    await undoLastOperation();
+
+    expect(vscode.window.showInformationMessage).toHaveBeenCalledWith(
+      'There is no component operation to undo.',
+    );
+  });
+
+  it('should do nothing unless the user confirms', async () => {
+    await undoLastOperation();
+
+    expect(vscode.window.showWarningMessage).toHaveBeenCalledWith(
+      'Undo create Button?',
+      { modal: true },
+      'Undo',
+    );
+    expect(journal.rollback).not.toHaveBeenCalled();
+  });
+
+  it('should roll back the last operation', async () => {
+    (vscode.window.showWarningMessage as jest.Mock).mockResolvedValueOnce('Undo');
+
+    await undoLastOperation();
+
+    expect(journal.rollback).toHaveBeenCalled();
+    expect(vscode.window.showInformationMessage).toHaveBeenCalledWith('Undid create Button.');
+  });
+
+  it('should report changes that could not be reverted', async () => {
+    (vscode.window.showWarningMessage as jest.Mock).mockResolvedValueOnce('Undo');
+    journal.rollback.mockResolvedValueOnce([
+      'Button.tsx was changed since, so it was left as it is',
+    ]);
+
+    await undoLastOperation();
+
+    expect(vscode.window.showWarningMessage).toHaveBeenLastCalledWith(
+      'Undid create Button with problems: Button.tsx was changed since, so it was left as it is',
+    );
+  });
+});
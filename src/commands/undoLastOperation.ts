@@ -0,0 +1,31 @@
+import * as vscode from 'vscode';
+import { clearLastJournal, getLastJournal } from '../utils/journalUtils';
+
+export async function undoLastOperation() {
+  const journal = getLastJournal();
+  if (!journal) {
+    vscode.window.showInformationMessage('There is no component operation to undo.');
+    return;
+  }
+
+  const answer = await vscode.window.showWarningMessage(
+    `Undo ${journal.label}?`,
+    { modal: true },
+    'Undo',
+  );
+  if (answer !== 'Undo') {
+    return;
+  }
+
+  // Each operation can only be undone once
+  clearLastJournal();
+  const problems = await journal.rollback();
+
+  if (problems.length > 0) {
+    vscode.window.showWarningMessage(
+      `Undid ${journal.label} with problems: ${problems.join('; ')}`,
+    );
+  } else {
+    vscode.window.showInformationMessage(`Undid ${journal.label}.`);
+  }
+}
@@ -4,6 +4,10 @@ import { createWithDefaultFiles } from './commands/createWithDefaultFiles';
 import { addFiles } from './commands/addFiles';
 import { createAltComponent } from './commands/createWithAltFiles';
 import { forkComponentCommand } from './commands/forkComponent';
+import { generateFromManifest } from './commands/generateFromManifest';
+import { undoLastOperation } from './commands/undoLastOperation';
+import { registerConfigDiagnostics } from './utils/diagnosticsUtils';
+import { registerPreviewProvider } from './utils/previewUtils';
 
 export function activate(context: vscode.ExtensionContext) {
   const createAltComponentDisposable = vscode.commands.registerCommand(
@@ -31,9 +35,24 @@ export function activate(context: vscode.ExtensionContext) {
     forkComponentCommand,
   );
 
+  const generateFromManifestDisposable = vscode.commands.registerCommand(
+    'extension.generateFromManifest',
+    generateFromManifest,
+  );
+
+  const undoLastOperationDisposable = vscode.commands.registerCommand(
+    'extension.undoLastOperation',
+    undoLastOperation,
+  );
+
   context.subscriptions.push(createDefaultDisposable);
   context.subscriptions.push(renameDisposable);
   context.subscriptions.push(createAltComponentDisposable);
   context.subscriptions.push(addFilesDisposable);
   context.subscriptions.push(forkComponentDisposable);
+  context.subscriptions.push(generateFromManifestDisposable);
+  context.subscriptions.push(undoLastOperationDisposable);
+
+  registerConfigDiagnostics(context);
+  registerPreviewProvider(context);
 }
@@ -0,0 +1,147 @@
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import {
+  findPackageAliases,
+  findPathAliases,
+  PathAlias,
+  resolveAliases,
+  toAliasedSpecifier,
+} from './aliasUtils';
+import { mockFileSystem } from '../__mocks__/fs/memoryFileSystem';
+
+jest.mock('fs/promises');
+
+const root = path.join('/project');
+
+describe('aliasUtils', () => {
+  describe('findPathAliases', () => {
+    it('should read paths and baseUrl from the nearest tsconfig, including what it extends', async () => {
+      mockFileSystem(
+        {
+          'tsconfig.base.json': JSON.stringify({
+            compilerOptions: { baseUrl: '.', paths: { '~ui/*': ['src/components/*'] } },
+          }),
+          [path.join('app', 'tsconfig.json')]: [
+            '{',
+            '  // Comments and trailing commas are allowed',
+            '  "extends": "../tsconfig.base",',
+            '  "compilerOptions": { "paths": { "@/*": ["./src/*"], }, },',
+            '}',
+          ].join('\n'),
+        },
+        { root },
+      );
+
+      const aliases = await findPathAliases(path.join(root, 'app', 'src', 'App.tsx'));
+
+      // paths are resolved from the inherited baseUrl
+      expect(aliases).toEqual([
+        { pattern: '@/*', targets: [path.join(root, 'src', '*')] },
+        { pattern: '*', targets: [path.join(root, '*')] },
+      ]);
+    });
+
+    it('should resolve paths from the config declaring them without a baseUrl', async () => {
+      mockFileSystem(
+        {
+          'jsconfig.json': JSON.stringify({ compilerOptions: { paths: { '@/*': ['./src/*'] } } }),
+        },
+        { root },
+      );
+
+      expect(await findPathAliases(path.join(root, 'src', 'App.jsx'))).toEqual([
+        { pattern: '@/*', targets: [path.join(root, 'src', '*')] },
+      ]);
+    });
+
+    it('should look each folder up once for the same cache', async () => {
+      mockFileSystem({}, { root });
+      const cache = new Map<string, Promise<PathAlias[]>>();
+
+      expect(await findPathAliases(path.join(root, 'src', 'a.ts'), cache)).toEqual([]);
+      const reads = (fs.readFile as jest.Mock).mock.calls.length;
+      await findPathAliases(path.join(root, 'src', 'b.ts'), cache);
+
+      expect(fs.readFile).toHaveBeenCalledTimes(reads);
+    });
+  });
+
+  describe('findPackageAliases', () => {
+    it('should turn the exports of the nearest package into aliases', async () => {
+      mockFileSystem(
+        {
+          [path.join('packages', 'ui', 'package.json')]: JSON.stringify({
+            name: '@acme/ui',
+            exports: {
+              '.': './src/index.ts',
+              './*': { types: './src/components/*/index.ts', default: './dist/*/index.js' },
+            },
+          }),
+        },
+        { root },
+      );
+
+      expect(
+        await findPackageAliases(path.join(root, 'packages', 'ui', 'src', 'components', 'Button')),
+      ).toEqual([
+        { pattern: '@acme/ui', targets: [path.join(root, 'packages', 'ui', 'src', 'index.ts')] },
+        {
+          pattern: '@acme/ui/*',
+          targets: [
+            path.join(root, 'packages', 'ui', 'src', 'components', '*', 'index.ts'),
+            path.join(root, 'packages', 'ui', 'dist', '*', 'index.js'),
+          ],
+        },
+      ]);
+    });
+
+    it('should return no aliases for a package without exports', async () => {
+      mockFileSystem(
+        { 'package.json': JSON.stringify({ name: 'app', main: 'index.js' }) },
+        { root },
+      );
+
+      expect(await findPackageAliases(path.join(root, 'src'))).toEqual([]);
+    });
+  });
+
+  describe('resolveAliases', () => {
+    const aliases: PathAlias[] = [
+      { pattern: '*', targets: [path.join(root, '*')] },
+      { pattern: '@/*', targets: [path.join(root, 'src', '*')] },
+      { pattern: '@/components/*', targets: [path.join(root, 'lib', 'components', '*')] },
+      { pattern: '@button', targets: [path.join(root, 'src', 'Button')] },
+    ];
+
+    it('should try the most specific alias first', () => {
+      expect(
+        resolveAliases('@/components/Button', aliases).map(({ alias, target }) => [
+          alias.pattern,
+          target,
+        ]),
+      ).toEqual([
+        ['@/components/*', path.join(root, 'lib', 'components', 'Button')],
+        ['@/*', path.join(root, 'src', 'components', 'Button')],
+        ['*', path.join(root, '@', 'components', 'Button')],
+      ]);
+      expect(resolveAliases('@button', aliases)[0].target).toBe(path.join(root, 'src', 'Button'));
+    });
+  });
+
+  describe('toAliasedSpecifier', () => {
+    const aliases: PathAlias[] = [
+      { pattern: '@/*', targets: [path.join(root, 'src', '*')] },
+      { pattern: '*', targets: [path.join(root, '*')] },
+    ];
+
+    it('should keep the preferred alias where it fits', () => {
+      const filePath = path.join(root, 'src', 'components', 'Toggle');
+      expect(toAliasedSpecifier(filePath, aliases)).toBe('@/components/Toggle');
+      expect(toAliasedSpecifier(filePath, aliases, aliases[1])).toBe('src/components/Toggle');
+    });
+
+    it('should return undefined when no alias covers the path', () => {
+      expect(toAliasedSpecifier(path.join('/elsewhere', 'Toggle'), aliases)).toBeUndefined();
+    });
+  });
+});
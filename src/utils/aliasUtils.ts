@@ -0,0 +1,225 @@
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import { parse as parseJsonc } from 'jsonc-parser';
+import { isObject } from './configurationUtils';
+
+// A module path pattern and the paths it stands for, each with at most one *, such as
+// "@/*" for "/project/src/*"
+export interface PathAlias {
+  pattern: string;
+  // Absolute paths, in the order they are tried
+  targets: string[];
+}
+
+interface PathOptions {
+  // Absolute
+  baseUrl?: string;
+  paths?: Record<string, string[]>;
+  // Where the paths are resolved from when there is no baseUrl
+  pathsDirectory?: string;
+}
+
+const PROJECT_CONFIG_NAMES = ['tsconfig.json', 'jsconfig.json'];
+
+async function readJsonc(filePath: string): Promise<unknown> {
+  try {
+    return parseJsonc(await fs.readFile(filePath, 'utf-8'), undefined, {
+      allowTrailingComma: true,
+    });
+  } catch {
+    return undefined;
+  }
+}
+
+// baseUrl and paths of a tsconfig or jsconfig, including those it inherits through
+// relative extends. Configs extended from packages are not followed
+async function readPathOptions(configPath: string, seen = new Set<string>()): Promise<PathOptions> {
+  if (seen.has(configPath)) {
+    return {};
+  }
+  seen.add(configPath);
+  const config = await readJsonc(configPath);
+  if (!isObject(config)) {
+    return {};
+  }
+
+  const directory = path.dirname(configPath);
+  let options: PathOptions = {};
+  for (const extended of [config.extends].flat()) {
+    if (typeof extended === 'string' && extended.startsWith('.')) {
+      const extendedPath = path.resolve(directory, extended);
+      options = {
+        ...options,
+        ...(await readPathOptions(
+          extendedPath.endsWith('.json') ? extendedPath : `${extendedPath}.json`,
+          seen,
+        )),
+      };
+    }
+  }
+
+  const { baseUrl, paths } = isObject(config.compilerOptions) ? config.compilerOptions : {};
+  if (typeof baseUrl === 'string') {
+    options.baseUrl = path.resolve(directory, baseUrl);
+  }
+  if (isObject(paths)) {
+    options.paths = paths;
+    options.pathsDirectory = directory;
+  }
+  return options;
+}
+
+async function loadPathAliases(directory: string): Promise<PathAlias[]> {
+  let current = directory;
+  while (true) {
+    for (const name of PROJECT_CONFIG_NAMES) {
+      const configPath = path.join(current, name);
+      if ((await readJsonc(configPath)) === undefined) {
+        continue;
+      }
+
+      const { baseUrl, paths = {}, pathsDirectory } = await readPathOptions(configPath);
+      const aliases = Object.entries(paths)
+        .filter(([, targets]) => Array.isArray(targets))
+        .map(([pattern, targets]) => ({
+          pattern,
+          targets: targets.map((target) => path.resolve(baseUrl ?? pathsDirectory!, target)),
+        }));
+      // Non-relative paths are also looked up from the baseUrl
+      if (baseUrl) {
+        aliases.push({ pattern: '*', targets: [path.join(baseUrl, '*')] });
+      }
+      return aliases;
+    }
+
+    const parent = path.dirname(current);
+    if (parent === current) {
+      return [];
+    }
+    current = parent;
+  }
+}
+
+/**
+ * Find the path aliases that apply to a file, from the nearest tsconfig.json or
+ * jsconfig.json. Pass the same cache for many files, so each folder is only looked up once.
+ */
+export function findPathAliases(
+  filePath: string,
+  cache = new Map<string, Promise<PathAlias[]>>(),
+): Promise<PathAlias[]> {
+  const directory = path.dirname(filePath);
+  let aliases = cache.get(directory);
+  if (!aliases) {
+    aliases = loadPathAliases(directory);
+    cache.set(directory, aliases);
+  }
+  return aliases;
+}
+
+// Every file path an exports entry points to, whatever the conditions
+function getExportTargets(entry: unknown): string[] {
+  if (typeof entry === 'string') {
+    return [entry];
+  }
+  if (Array.isArray(entry)) {
+    return entry.flatMap(getExportTargets);
+  }
+  if (entry && typeof entry === 'object') {
+    return Object.values(entry).flatMap(getExportTargets);
+  }
+  return [];
+}
+
+/**
+ * Aliases for the exports of the nearest package.json above a directory, such as
+ * "@acme/ui/*" for "./src/components/*", so imports of the package itself are resolved.
+ */
+export async function findPackageAliases(directory: string): Promise<PathAlias[]> {
+  let current = directory;
+  while (true) {
+    const packageJson = await readJsonc(path.join(current, 'package.json'));
+    if (isObject(packageJson) && typeof packageJson.name === 'string') {
+      const { name, exports } = packageJson;
+      if (exports === undefined) {
+        return [];
+      }
+      const entries: [string, unknown][] =
+        isObject(exports) && Object.keys(exports).every((key) => key.startsWith('.')) ?
+          Object.entries(exports)
+        : [['.', exports]];
+
+      return entries.map(([subpath, entry]) => ({
+        pattern: name + subpath.slice(1),
+        targets: [...new Set(getExportTargets(entry))].map((target) =>
+          path.resolve(current, target),
+        ),
+      }));
+    }
+
+    const parent = path.dirname(current);
+    if (parent === current) {
+      return [];
+    }
+    current = parent;
+  }
+}
+
+// The part of a value matched by the * of a pattern, '' for an exact match, or undefined
+function matchPattern(pattern: string, value: string): string | undefined {
+  const star = pattern.indexOf('*');
+  if (star === -1) {
+    return pattern === value ? '' : undefined;
+  }
+  const prefix = pattern.slice(0, star);
+  const suffix = pattern.slice(star + 1);
+  return (
+      value.length >= prefix.length + suffix.length &&
+        value.startsWith(prefix) &&
+        value.endsWith(suffix)
+    ) ?
+      value.slice(prefix.length, value.length - suffix.length)
+    : undefined;
+}
+
+// Exact patterns come first, then those with the longest prefix before the *
+function getSpecificity({ pattern }: PathAlias): number {
+  return pattern.includes('*') ? pattern.indexOf('*') : Number.MAX_SAFE_INTEGER;
+}
+
+/**
+ * The paths an aliased module specifier could stand for, most specific alias first, the
+ * way TypeScript picks between them.
+ */
+export function resolveAliases(
+  specifier: string,
+  aliases: PathAlias[],
+): { alias: PathAlias; target: string }[] {
+  return aliases
+    .map((alias) => ({ alias, match: matchPattern(alias.pattern, specifier) }))
+    .filter(({ match }) => match !== undefined)
+    .sort((a, b) => getSpecificity(b.alias) - getSpecificity(a.alias))
+    .flatMap(({ alias, match }) =>
+      alias.targets.map((target) => ({ alias, target: target.replace('*', match!) })),
+    );
+}
+
+/**
+ * Write a path as an aliased specifier, trying the preferred alias first so the original
+ * import style is kept. Returns undefined when no alias covers the path.
+ */
+export function toAliasedSpecifier(
+  filePath: string,
+  aliases: PathAlias[],
+  preferred?: PathAlias,
+): string | undefined {
+  for (const alias of preferred ? [preferred, ...aliases] : aliases) {
+    for (const target of alias.targets) {
+      const match = matchPattern(target, filePath);
+      if (match !== undefined) {
+        return alias.pattern.replace('*', match.split(path.sep).join('/'));
+      }
+    }
+  }
+  return undefined;
+}
@@ -1,4 +1,17 @@
-import { detectCase, transform, isValidCase, getAllCaseVariants, CaseType } from './caseUtils';
+import {
+  toDirectoryName,
+  splitComponentPath,
+  detectCase,
+  transform,
+  isValidCase,
+  getAllCaseVariants,
+  pluralize,
+  singularize,
+  replaceCaseVariants,
+  findNameOccurrences,
+  applyNameOccurrences,
+  CaseType,
+} from './caseUtils';
 
 describe('caseUtils', () => {
   describe('detectCase', () => {
@@ -26,11 +39,31 @@ describe('caseUtils', () => {
       expect(detectCase('header_navigation')).toBe('snake');
     });
 
+    it('should detect CONSTANT_CASE', () => {
+      expect(detectCase('MY_COMPONENT')).toBe('constant');
+      expect(detectCase('BUTTON_GROUP')).toBe('constant');
+    });
+
+    it('should detect Title Case', () => {
+      expect(detectCase('My Component')).toBe('title');
+      expect(detectCase('Header Navigation Bar')).toBe('title');
+    });
+
+    it('should detect dot.case', () => {
+      expect(detectCase('my.component')).toBe('dot');
+      expect(detectCase('header.navigation')).toBe('dot');
+    });
+
+    it('should detect Train-Case', () => {
+      expect(detectCase('My-Component')).toBe('train');
+      expect(detectCase('Header-Navigation')).toBe('train');
+    });
+
     it('should return null for invalid or mixed format', () => {
-      expect(detectCase('My-Component')).toBeNull();
-      expect(detectCase('MY_COMPONENT')).toBeNull();
+      expect(detectCase('my-Component')).toBeNull();
+      expect(detectCase('My_component')).toBeNull();
       expect(detectCase('my component')).toBeNull();
-      expect(detectCase('my.component')).toBeNull();
+      expect(detectCase('my.Component')).toBeNull();
       expect(detectCase('123Component')).toBeNull();
     });
   });
@@ -44,6 +77,11 @@ describe('caseUtils', () => {
           camel: 'myComponent',
           kebab: 'my-component',
           snake: 'my_component',
+          constant: 'MY_COMPONENT',
+          title: 'My Component',
+          dot: 'my.component',
+          flat: 'mycomponent',
+          train: 'My-Component',
         },
       },
       {
@@ -73,6 +111,36 @@ describe('caseUtils', () => {
           snake: 'my_component',
         },
       },
+      {
+        input: 'MY_COMPONENT',
+        expected: {
+          pascal: 'MyComponent',
+          kebab: 'my-component',
+          title: 'My Component',
+        },
+      },
+      {
+        input: 'My Component',
+        expected: {
+          pascal: 'MyComponent',
+          constant: 'MY_COMPONENT',
+          dot: 'my.component',
+        },
+      },
+      {
+        input: 'my.component',
+        expected: {
+          camel: 'myComponent',
+          train: 'My-Component',
+        },
+      },
+      {
+        input: 'My-Component',
+        expected: {
+          snake: 'my_component',
+          flat: 'mycomponent',
+        },
+      },
       // Test with multiple words
       {
         input: 'UserProfileCard',
@@ -91,6 +159,8 @@ describe('caseUtils', () => {
           camel: 'button2',
           kebab: 'button-2',
           //   snake: 'button_2',
+          constant: 'BUTTON_2',
+          train: 'Button-2',
         },
       },
     ];
@@ -104,7 +174,7 @@ describe('caseUtils', () => {
     });
 
     it('should return null for invalid input format', () => {
-      expect(transform('My-Component', 'pascal')).toBeNull();
+      expect(transform('my-Component', 'pascal')).toBeNull();
       expect(transform('123', 'camel')).toBeNull();
     });
   });
@@ -115,11 +185,15 @@ describe('caseUtils', () => {
       expect(isValidCase('myComponent')).toBe(true);
       expect(isValidCase('my-component')).toBe(true);
       expect(isValidCase('my_component')).toBe(true);
+      expect(isValidCase('MY_COMPONENT')).toBe(true);
+      expect(isValidCase('My Component')).toBe(true);
+      expect(isValidCase('my.component')).toBe(true);
+      expect(isValidCase('My-Component')).toBe(true);
     });
 
     it('should return false for invalid case formats', () => {
-      expect(isValidCase('My-Component')).toBe(false);
-      expect(isValidCase('MY_COMPONENT')).toBe(false);
+      expect(isValidCase('my-Component')).toBe(false);
+      expect(isValidCase('My_Component')).toBe(false);
       expect(isValidCase('my component')).toBe(false);
       expect(isValidCase('-myComponent')).toBe(false);
       expect(isValidCase('_myComponent')).toBe(false);
@@ -134,6 +208,11 @@ describe('caseUtils', () => {
         camel: 'myComponent',
         kebab: 'my-component',
         snake: 'my_component',
+        constant: 'MY_COMPONENT',
+        title: 'My Component',
+        dot: 'my.component',
+        flat: 'mycomponent',
+        train: 'My-Component',
       });
     });
 
@@ -144,17 +223,124 @@ describe('caseUtils', () => {
         camel: 'userProfileCard',
         kebab: 'user-profile-card',
         snake: 'user_profile_card',
+        constant: 'USER_PROFILE_CARD',
+        title: 'User Profile Card',
+        dot: 'user.profile.card',
+        flat: 'userprofilecard',
+        train: 'User-Profile-Card',
       });
     });
 
     it('should return null for all cases with invalid input', () => {
-      const variants = getAllCaseVariants('My-Component');
+      const variants = getAllCaseVariants('my-Component');
       expect(variants).toEqual({
         pascal: null,
         camel: null,
         kebab: null,
         snake: null,
+        constant: null,
+        title: null,
+        dot: null,
+        flat: null,
+        train: null,
       });
     });
   });
+
+  describe('pluralize', () => {
+    it('should pluralize the last word and keep the case', () => {
+      expect(pluralize('User')).toBe('Users');
+      expect(pluralize('userProfile')).toBe('userProfiles');
+      expect(pluralize('store-category')).toBe('store-categories');
+      expect(pluralize('SALES_PERSON')).toBe('SALES_PEOPLE');
+    });
+
+    it('should use configured irregular plurals', () => {
+      expect(pluralize('Cactus', { cactus: 'cacti' })).toBe('Cacti');
+    });
+
+    it('should return null for invalid input', () => {
+      expect(pluralize('my-Component')).toBeNull();
+    });
+  });
+
+  describe('singularize', () => {
+    it('should singularize the last word and keep the case', () => {
+      expect(singularize('users')).toBe('user');
+      expect(singularize('UserProfiles')).toBe('UserProfile');
+      expect(singularize('team_people')).toBe('team_person');
+    });
+  });
+
+  describe('toDirectoryName', () => {
+    it('should convert the name to the directory case', () => {
+      expect(toDirectoryName('my-button', 'pascal')).toBe('MyButton');
+      expect(toDirectoryName('MyButton', 'kebab')).toBe('my-button');
+    });
+
+    it('should keep the name as typed without a directory case', () => {
+      expect(toDirectoryName('my-button')).toBe('my-button');
+    });
+  });
+
+  describe('splitComponentPath', () => {
+    it('should split parent folders from the component name', () => {
+      expect(splitComponentPath('forms/inputs/TextInput')).toEqual({
+        folders: ['forms', 'inputs'],
+        name: 'TextInput',
+      });
+      expect(splitComponentPath('TextInput')).toEqual({ folders: [], name: 'TextInput' });
+    });
+  });
+
+  describe('replaceCaseVariants', () => {
+    it('should replace singular and plural variants in every case', () => {
+      const input = 'const users: User[] = useUsers(); // user-list, USERS_KEY';
+      expect(replaceCaseVariants(input, 'User', 'Account')).toBe(
+        'const accounts: Account[] = useAccounts(); // account-list, ACCOUNTS_KEY',
+      );
+    });
+
+    it('should replace irregular plurals', () => {
+      expect(replaceCaseVariants('People.tsx', 'Person', 'Customer')).toBe('Customers.tsx');
+      expect(replaceCaseVariants('const data = geese;', 'goose', 'duck', { goose: 'geese' })).toBe(
+        'const data = ducks;',
+      );
+    });
+  });
+
+  describe('findNameOccurrences', () => {
+    const kinds = (input: string) =>
+      findNameOccurrences(input, 'Button', 'Toggle').map(({ text, kind }) => [text, kind]);
+
+    it('should tell whole words from compound names', () => {
+      expect(kinds('<Button /> in a ButtonGroup, isButtonLike and button-group')).toEqual([
+        ['Button', 'exact'],
+        ['Button', 'compound'],
+        ['Button', 'compound'],
+        ['button', 'compound'],
+      ]);
+    });
+
+    it('should mark lowercase single words as ambiguous', () => {
+      expect(kinds('.button { color: red; }')).toEqual([['button', 'ambiguous']]);
+    });
+
+    it('should skip names that run into a longer word', () => {
+      expect(kinds('const Buttonish = buttons2;')).toEqual([]);
+    });
+
+    it('should follow the case of the surrounding identifier', () => {
+      const occurrences = findNameOccurrences('my-button-group', 'MyButton', 'MyToggle');
+      expect(occurrences.map(({ replacement }) => replacement)).toEqual(['my-toggle']);
+    });
+
+    it('should only apply the given occurrences', () => {
+      const input = 'Button in ButtonGroup';
+      const exact = findNameOccurrences(input, 'Button', 'Toggle').filter(
+        ({ kind }) => kind === 'exact',
+      );
+      expect(applyNameOccurrences(input, exact)).toBe('Toggle in ButtonGroup');
+    });
+  });
 });
@@ -1,15 +1,44 @@
-export type CaseType = 'pascal' | 'kebab' | 'camel' | 'snake';
+import { pluralizeWord, singularizeWord } from './inflectionUtils';
+
+export type CaseType =
+  | 'pascal'
+  | 'kebab'
+  | 'camel'
+  | 'snake'
+  | 'constant'
+  | 'title'
+  | 'dot'
+  | 'flat'
+  | 'train';
+
+export const CASE_TYPES: CaseType[] = [
+  'pascal',
+  'camel',
+  'kebab',
+  'snake',
+  'constant',
+  'title',
+  'dot',
+  'flat',
+  'train',
+];
 
 export interface WordTokens {
   words: string[];
 }
 
-// Case detection patterns
+// Case detection patterns, checked in order. Single lowercase words are reported as kebab-case,
+// so flatcase is only ever produced, never detected.
 const casePatterns: Record<CaseType, RegExp> = {
   pascal: /^[A-Z][a-zA-Z0-9]*$/,
   kebab: /^[a-z][a-z0-9]*(-[a-z0-9]+)*$/,
   camel: /^[a-z][a-zA-Z0-9]*$/,
   snake: /^[a-z][a-z0-9]*(_[a-z0-9]+)*$/,
+  constant: /^[A-Z][A-Z0-9]*(_[A-Z0-9]+)*$/,
+  title: /^[A-Z][a-zA-Z0-9]*( [A-Z][a-zA-Z0-9]*)*$/,
+  dot: /^[a-z][a-z0-9]*(\.[a-z0-9]+)*$/,
+  flat: /^[a-z][a-z0-9]*$/,
+  train: /^[A-Z][a-zA-Z0-9]*(-[A-Z][a-zA-Z0-9]*)*$/,
 };
 
 // Detect which case type a string is in
@@ -35,17 +64,41 @@ function tokenize(input: string, caseType: CaseType): WordTokens {
       };
 
     case 'kebab':
+    case 'train':
       return {
         words: input.split('-').map((word) => word.toLowerCase()),
       };
 
     case 'snake':
+    case 'constant':
       return {
         words: input.split('_').map((word) => word.toLowerCase()),
       };
+
+    case 'title':
+      return {
+        words: input.split(' ').map((word) => word.toLowerCase()),
+      };
+
+    case 'dot':
+      return {
+        words: input.split('.').map((word) => word.toLowerCase()),
+      };
+
+    case 'flat':
+      return { words: [input] };
   }
 }
 
+// Separated cases also split words on letter-to-digit boundaries (button2 -> button-2)
+function splitDigitBoundaries(words: string[]): string[] {
+  return words.flatMap((word) => word.split(/(?<=[a-zA-Z])(?=\d)/));
+}
+
+function capitalize(word: string): string {
+  return word.charAt(0).toUpperCase() + word.slice(1);
+}
+
 // Transform tokens into a specific case
 function transformTokens(tokens: WordTokens, targetCase: CaseType): string {
   const { words } = tokens;
@@ -88,6 +141,23 @@ function transformTokens(tokens: WordTokens, targetCase: CaseType): string {
 
       return result.join('_');
     }
+
+    case 'constant':
+      return splitDigitBoundaries(words)
+        .map((word) => word.toUpperCase())
+        .join('_');
+
+    case 'title':
+      return words.map(capitalize).join(' ');
+
+    case 'dot':
+      return splitDigitBoundaries(words).join('.');
+
+    case 'flat':
+      return words.join('');
+
+    case 'train':
+      return splitDigitBoundaries(words).map(capitalize).join('-');
   }
 }
 
@@ -102,6 +172,18 @@ export function transform(input: string, targetCase: CaseType): string | null {
   return transformTokens(tokens, targetCase);
 }
 
+// Directory name for a component: the name in directoryCase, or as typed when no case is set
+export function toDirectoryName(name: string, directoryCase?: CaseType): string {
+  return (directoryCase && transform(name, directoryCase)) || name;
+}
+
+// Split a name typed as a path, like forms/inputs/TextInput, into its parent folders and the
+// component name
+export function splitComponentPath(input: string): { folders: string[]; name: string } {
+  const segments = input.split(/[\\/]/);
+  return { folders: segments.slice(0, -1), name: segments[segments.length - 1] };
+}
+
 // Check if a string is in any valid case format
 export function isValidCase(input: string): boolean {
   return detectCase(input) !== null;
@@ -109,21 +191,175 @@ export function isValidCase(input: string): boolean {
 
 // Get all valid transformations of a string
 export function getAllCaseVariants(input: string): Record<CaseType, string | null> {
+  const sourceCase = detectCase(input);
+  const tokens = sourceCase ? tokenize(input, sourceCase) : null;
+
+  return Object.fromEntries(
+    CASE_TYPES.map((caseType) => [caseType, tokens ? transformTokens(tokens, caseType) : null]),
+  ) as Record<CaseType, string | null>;
+}
+
+// Apply an inflection to the last word of a name, keeping the name's case
+function inflect(input: string, inflectWord: (word: string) => string): string | null {
   const sourceCase = detectCase(input);
   if (!sourceCase) {
-    return {
-      pascal: null,
-      camel: null,
-      kebab: null,
-      snake: null,
-    };
+    return null;
   }
 
-  const tokens = tokenize(input, sourceCase);
-  return {
-    pascal: transformTokens(tokens, 'pascal'),
-    camel: transformTokens(tokens, 'camel'),
-    kebab: transformTokens(tokens, 'kebab'),
-    snake: transformTokens(tokens, 'snake'),
-  };
+  const { words } = tokenize(input, sourceCase);
+  const inflected = [...words.slice(0, -1), inflectWord(words[words.length - 1])];
+  return transformTokens({ words: inflected }, sourceCase);
+}
+
+// Pluralize a name in any supported case (UserProfile -> UserProfiles)
+export function pluralize(input: string, irregulars?: Record<string, string>): string | null {
+  return inflect(input, (word) => pluralizeWord(word, irregulars));
+}
+
+// Singularize a name in any supported case (user_profiles -> user_profile)
+export function singularize(input: string, irregulars?: Record<string, string>): string | null {
+  return inflect(input, (word) => singularizeWord(word, irregulars));
+}
+
+// Where a name was found in some text, and what it becomes
+export interface NameOccurrence {
+  start: number;
+  end: number;
+  text: string;
+  replacement: string;
+  // exact: a whole identifier or word. compound: the start, middle or end of a longer
+  // identifier, e.g. Button in ButtonGroup or isButtonLike. ambiguous: a whole lowercase
+  // single word such as "button", which may well not refer to the component
+  kind: 'exact' | 'compound' | 'ambiguous';
+}
+
+// Characters that continue an identifier, a CSS class or a kebab-case file name
+const isWordChar = (char: string | undefined) => !!char && /[A-Za-z0-9_$-]/.test(char);
+const isSeparator = (char: string | undefined) => char === '-' || char === '_';
+const isUpper = (char: string | undefined) => !!char && /[A-Z]/.test(char);
+const isLowerOrDigit = (char: string | undefined) => !!char && /[a-z0-9]/.test(char);
+
+// Every case variant of the old name and its plural, mapped to the same variants of the new
+// name by case type. Single-word names share variants, e.g. "button" is camel, kebab and snake
+function getNameVariants(
+  oldName: string,
+  newName: string,
+  irregulars?: Record<string, string>,
+): Map<string, Map<CaseType, string>> {
+  const variants = new Map<string, Map<CaseType, string>>();
+  const forms: [string | null, string | null][] = [
+    [pluralize(oldName, irregulars), pluralize(newName, irregulars)],
+    [oldName, newName],
+  ];
+
+  for (const [oldForm, newForm] of forms) {
+    if (!oldForm || !newForm) {
+      continue;
+    }
+    for (const caseType of CASE_TYPES) {
+      const oldVariant = transform(oldForm, caseType);
+      const newVariant = transform(newForm, caseType);
+      if (oldVariant && newVariant) {
+        const replacements = variants.get(oldVariant) ?? new Map<CaseType, string>();
+        if (!replacements.has(caseType)) {
+          replacements.set(caseType, newVariant);
+        }
+        variants.set(oldVariant, replacements);
+      }
+    }
+  }
+  return variants;
+}
+
+function classifyOccurrence(
+  input: string,
+  start: number,
+  end: number,
+): NameOccurrence['kind'] | null {
+  const before = input[start - 1];
+  const after = input[end];
+  const startsWord = !isWordChar(before);
+  const endsWord = !isWordChar(after);
+
+  if (startsWord && endsWord) {
+    return /^[a-z0-9]+$/.test(input.slice(start, end)) ? 'ambiguous' : 'exact';
+  }
+
+  // Inside a longer identifier, the name has to start and end on a word boundary of it
+  const compoundStart =
+    startsWord || isSeparator(before) || (isUpper(input[start]) && isLowerOrDigit(before));
+  const compoundEnd =
+    endsWord || isSeparator(after) || (isLowerOrDigit(input[end - 1]) && isUpper(after));
+  return compoundStart && compoundEnd ? 'compound' : null;
+}
+
+/**
+ * Find every case variant of a name that sits on word boundaries, so renaming Button leaves
+ * Buttonish alone. Where a variant fits several case types, the separator next to it picks
+ * the replacement: button-group becomes icon-button-group rather than iconButton-group.
+ */
+export function findNameOccurrences(
+  input: string,
+  oldName: string,
+  newName: string,
+  irregulars?: Record<string, string>,
+): NameOccurrence[] {
+  const candidates: NameOccurrence[] = [];
+
+  for (const [oldVariant, replacements] of getNameVariants(oldName, newName, irregulars)) {
+    for (
+      let start = input.indexOf(oldVariant);
+      start !== -1;
+      start = input.indexOf(oldVariant, start + 1)
+    ) {
+      const end = start + oldVariant.length;
+      const kind = classifyOccurrence(input, start, end);
+      if (!kind) {
+        continue;
+      }
+
+      const neighbours = [input[start - 1], input[end]];
+      const contextCase =
+        neighbours.includes('-') ? 'kebab'
+        : neighbours.includes('_') ? 'snake'
+        : undefined;
+      const replacement =
+        (contextCase && replacements.get(contextCase)) ?? [...replacements.values()][0];
+      if (replacement !== oldVariant) {
+        candidates.push({ start, end, text: oldVariant, replacement, kind });
+      }
+    }
+  }
+
+  // The longest match wins where variants overlap, so Users is replaced rather than User
+  candidates.sort((a, b) => a.start - b.start || b.end - a.end);
+  const occurrences: NameOccurrence[] = [];
+  for (const candidate of candidates) {
+    if (candidate.start >= (occurrences[occurrences.length - 1]?.end ?? 0)) {
+      occurrences.push(candidate);
+    }
+  }
+  return occurrences;
+}
+
+export function applyNameOccurrences(input: string, occurrences: NameOccurrence[]): string {
+  let result = '';
+  let position = 0;
+  for (const { start, end, replacement } of [...occurrences].sort((a, b) => a.start - b.start)) {
+    result += input.slice(position, start) + replacement;
+    position = end;
+  }
+  return result + input.slice(position);
+}
+
+// Replace every case variant of a name on word boundaries, including inside compound
+// identifiers. Plural forms are matched too, so renaming Person to Customer turns People
+// into Customers rather than leaving it untouched.
+export function replaceCaseVariants(
+  input: string,
+  oldName: string,
+  newName: string,
+  irregulars?: Record<string, string>,
+): string {
+  return applyNameOccurrences(input, findNameOccurrences(input, oldName, newName, irregulars));
 }
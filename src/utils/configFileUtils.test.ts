@@ -0,0 +1,109 @@
+import * as vscode from 'vscode';
+import * as path from 'path';
+import { findConfigFile, parseConfigFile } from './configFileUtils';
+import { loadModule } from './moduleUtils';
+import { mockFileSystem } from '../__mocks__/fs/memoryFileSystem';
+
+jest.mock('./moduleUtils');
+
+const directory = path.join('/path', 'to', 'project');
+
+describe('configFileUtils', () => {
+  describe('findConfigFile', () => {
+    it('should prefer config files in order of precedence', async () => {
+      mockFileSystem(
+        {
+          '.component-templates.yaml': 'templatesDirectory: templates',
+          '.component-templates.jsonc': '{}',
+          'component-templates.config.js': '',
+        },
+        { root: directory },
+      );
+
+      expect(await findConfigFile(directory)).toEqual({
+        configPath: path.join(directory, '.component-templates.jsonc'),
+        content: '{}',
+      });
+    });
+
+    it('should only use package.json when it has a componentTemplates key', async () => {
+      mockFileSystem({ 'package.json': '{ "name": "app" }' }, { root: directory });
+      expect(await findConfigFile(directory)).toBeNull();
+
+      mockFileSystem(
+        { 'package.json': '{ "name": "app", "componentTemplates": {} }' },
+        { root: directory },
+      );
+      expect(await findConfigFile(directory)).toEqual({
+        configPath: path.join(directory, 'package.json'),
+        content: '{ "name": "app", "componentTemplates": {} }',
+      });
+    });
+  });
+
+  describe('parseConfigFile', () => {
+    const parse = (fileName: string, content: string) =>
+      parseConfigFile({ configPath: path.join(directory, fileName), content });
+
+    it('should parse JSONC with comments and trailing commas', async () => {
+      const content = `{
+        // Shared with the design system
+        "templatesDirectory": "templates", /* inline */
+        "defaultTemplateGroup": ["a",],
+      }`;
+
+      expect(await parse('.component-templates.jsonc', content)).toEqual({
+        templatesDirectory: 'templates',
+        defaultTemplateGroup: ['a'],
+      });
+    });
+
+    it('should report the line of JSONC syntax errors', async () => {
+      await expect(parse('.component-templates.jsonc', '{\n  "a": 1\n  "b": 2\n}')).rejects.toThrow(
+        'CommaExpected at line 3',
+      );
+    });
+
+    it('should parse YAML', async () => {
+      const content = 'templatesDirectory: templates\ndefaultTemplateGroup:\n  - a # the default\n';
+
+      expect(await parse('.component-templates.yaml', content)).toEqual({
+        templatesDirectory: 'templates',
+        defaultTemplateGroup: ['a'],
+      });
+    });
+
+    it('should read the componentTemplates key of package.json', async () => {
+      const content = '{ "name": "app", "componentTemplates": { "templatesDirectory": "t" } }';
+
+      expect(await parse('package.json', content)).toEqual({ templatesDirectory: 't' });
+    });
+
+    it('should call functions exported by JavaScript configs', async () => {
+      (loadModule as jest.Mock).mockResolvedValueOnce(async () => ({ templatesDirectory: 't' }));
+
+      expect(await parse('component-templates.config.mjs', '')).toEqual({
+        templatesDirectory: 't',
+      });
+      expect(loadModule).toHaveBeenCalledWith(
+        path.join(directory, 'component-templates.config.mjs'),
+      );
+    });
+
+    it('should use objects exported by JavaScript configs as-is', async () => {
+      (loadModule as jest.Mock).mockResolvedValueOnce({ templatesDirectory: 't' });
+
+      expect(await parse('component-templates.config.js', '')).toEqual({ templatesDirectory: 't' });
+    });
+
+    it('should not load JavaScript configs in untrusted workspaces', async () => {
+      Object.assign(vscode.workspace, { isTrusted: false });
+
+      const error = await parse('component-templates.config.js', '').catch((e) => e);
+
+      Object.assign(vscode.workspace, { isTrusted: true });
+      expect(error).toEqual(new Error('JavaScript configs are only loaded in trusted workspaces'));
+      expect(loadModule).not.toHaveBeenCalled();
+    });
+  });
+});
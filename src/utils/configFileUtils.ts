@@ -0,0 +1,213 @@
+import * as vscode from 'vscode';
+import * as path from 'path';
+import * as fs from 'fs/promises';
+import {
+  findNodeAtLocation,
+  parse as parseJsonc,
+  parseTree,
+  ParseError,
+  printParseErrorCode,
+} from 'jsonc-parser';
+import { isNode, parse as parseYaml, parseDocument, YAMLError } from 'yaml';
+import { loadModule } from './moduleUtils';
+
+// Config files looked for in each directory, in order of precedence
+export const CONFIG_FILE_NAMES = [
+  '.component-templates.json',
+  '.component-templates.jsonc',
+  '.component-templates.yaml',
+  '.component-templates.yml',
+  'component-templates.config.js',
+  'component-templates.config.mjs',
+  'package.json',
+];
+
+// package.json only counts as a config when it has this key
+export const PACKAGE_JSON_KEY = 'componentTemplates';
+
+export interface ConfigFile {
+  configPath: string;
+  content: string;
+}
+
+// Location of a value inside a config file, e.g. ['templates', 2, 'source']
+export type ConfigPath = (string | number)[];
+
+// Character range inside the content of a config file
+export interface ConfigLocation {
+  offset: number;
+  length: number;
+}
+
+function isPackageJson(configPath: string): boolean {
+  return path.basename(configPath) === 'package.json';
+}
+
+function hasPackageJsonKey(content: string): boolean {
+  try {
+    const packageJson = JSON.parse(content);
+    return (
+      typeof packageJson === 'object' && packageJson !== null && PACKAGE_JSON_KEY in packageJson
+    );
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Find the config file with the highest precedence in a directory, or null if there is none.
+ */
+export async function findConfigFile(directory: string): Promise<ConfigFile | null> {
+  for (const fileName of CONFIG_FILE_NAMES) {
+    const configPath = path.join(directory, fileName);
+
+    let content: string;
+    try {
+      content = await fs.readFile(configPath, 'utf-8');
+    } catch {
+      continue;
+    }
+
+    if (isConfigFile({ configPath, content })) {
+      return { configPath, content };
+    }
+  }
+
+  return null;
+}
+
+export function isConfigFileName(fileName: string): boolean {
+  return CONFIG_FILE_NAMES.includes(fileName);
+}
+
+export function isConfigFile({ configPath, content }: ConfigFile): boolean {
+  return (
+    isConfigFileName(path.basename(configPath)) &&
+    (!isPackageJson(configPath) || hasPackageJsonKey(content))
+  );
+}
+
+function parseJsoncContent(content: string): unknown {
+  const errors: ParseError[] = [];
+  const parsed = parseJsonc(content, errors, { allowTrailingComma: true });
+
+  if (errors.length > 0) {
+    const [{ error, offset }] = errors;
+    const line = content.slice(0, offset).split('\n').length;
+    throw new Error(`${printParseErrorCode(error)} at line ${line}`);
+  }
+
+  return parsed;
+}
+
+/**
+ * Parse the content of a config file according to its format. JavaScript configs are
+ * loaded as modules and may export the config or a (possibly async) function returning it,
+ * which only happens in trusted workspaces.
+ */
+export async function parseConfigFile({ configPath, content }: ConfigFile): Promise<unknown> {
+  const fileName = path.basename(configPath);
+
+  if (isPackageJson(configPath)) {
+    return JSON.parse(content)[PACKAGE_JSON_KEY];
+  }
+
+  switch (path.extname(fileName)) {
+    case '.jsonc':
+      return parseJsoncContent(content);
+    case '.yaml':
+    case '.yml':
+      return parseYaml(content);
+    case '.js':
+    case '.mjs': {
+      if (!vscode.workspace.isTrusted) {
+        throw new Error('JavaScript configs are only loaded in trusted workspaces');
+      }
+      const exported = await loadModule(configPath);
+      return typeof exported === 'function' ? await exported() : exported;
+    }
+    default:
+      return JSON.parse(content);
+  }
+}
+
+function isYaml(configPath: string): boolean {
+  return ['.yaml', '.yml'].includes(path.extname(configPath));
+}
+
+export function isJavaScript(configPath: string): boolean {
+  return ['.js', '.mjs'].includes(path.extname(configPath));
+}
+
+// Missing values are located at the closest parent that exists
+function locateInJson(content: string, configPath: ConfigPath): ConfigLocation | null {
+  const root = parseTree(content, undefined, { allowTrailingComma: true });
+  if (!root) {
+    return null;
+  }
+
+  for (let length = configPath.length; length >= 0; length--) {
+    const node = findNodeAtLocation(root, configPath.slice(0, length));
+    if (node) {
+      return { offset: node.offset, length: node.length };
+    }
+  }
+  return null;
+}
+
+function locateInYaml(content: string, configPath: ConfigPath): ConfigLocation | null {
+  const document = parseDocument(content);
+
+  for (let length = configPath.length; length >= 0; length--) {
+    const node =
+      length === 0 ? document.contents : document.getIn(configPath.slice(0, length), true);
+    if (isNode(node) && node.range) {
+      const [start, valueEnd] = node.range;
+      return { offset: start, length: valueEnd - start };
+    }
+  }
+  return null;
+}
+
+/**
+ * Find where a value sits in the content of a config file. Returns null for JavaScript
+ * configs, whose values are computed.
+ */
+export function locateInConfigFile(
+  { configPath, content }: ConfigFile,
+  valuePath: ConfigPath,
+): ConfigLocation | null {
+  if (isJavaScript(configPath)) {
+    return null;
+  }
+  if (isYaml(configPath)) {
+    return locateInYaml(content, valuePath);
+  }
+  return locateInJson(
+    content,
+    isPackageJson(configPath) ? [PACKAGE_JSON_KEY, ...valuePath] : valuePath,
+  );
+}
+
+/**
+ * Find where the syntax error that made parseConfigFile fail is.
+ */
+export function locateParseError(
+  { configPath, content }: ConfigFile,
+  error: unknown,
+): ConfigLocation | null {
+  if (error instanceof YAMLError) {
+    const [start, end] = error.pos;
+    return { offset: start, length: end - start };
+  }
+  if (isJavaScript(configPath)) {
+    return null;
+  }
+
+  const errors: ParseError[] = [];
+  parseJsonc(content, errors, {
+    allowTrailingComma: path.extname(configPath) === '.jsonc',
+    disallowComments: path.extname(configPath) !== '.jsonc',
+  });
+  return errors.length > 0 ? { offset: errors[0].offset, length: errors[0].length } : null;
+}
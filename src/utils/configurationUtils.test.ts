@@ -1,7 +1,12 @@
 import * as vscode from 'vscode';
 import * as path from 'path';
 import * as fs from 'fs/promises';
-import { getComponentNamePrompt, validateComponentName, findConfig } from './configurationUtils';
+import {
+  getComponentNamePrompt,
+  validateComponentName,
+  validateComponentPath,
+  findConfig,
+} from './configurationUtils';
 
 jest.mock('vscode', () => ({
   window: {
@@ -27,7 +32,7 @@ describe('configurationUtils', () => {
   describe('getComponentNamePrompt', () => {
     it('should return the correct prompt message', () => {
       expect(getComponentNamePrompt()).toBe(
-        'Component name (PascalCase, camelCase, kebab-case, or snake_case)',
+        'Component name (PascalCase, camelCase, kebab-case, snake_case, CONSTANT_CASE, Title Case, dot.case, flatcase, or Train-Case)',
       );
     });
   });
@@ -41,15 +46,28 @@ describe('configurationUtils', () => {
     });
 
     it('should return error message for invalid component names', () => {
-      expect(validateComponentName('My-Component')).toBe(
-        'Component name must be in a valid case format (PascalCase, camelCase, kebab-case, or snake_case)',
+      expect(validateComponentName('my-Component')).toBe(
+        'Component name must be in a valid case format (PascalCase, camelCase, kebab-case, snake_case, CONSTANT_CASE, Title Case, dot.case, flatcase, or Train-Case)',
       );
       expect(validateComponentName('123')).toBe(
-        'Component name must be in a valid case format (PascalCase, camelCase, kebab-case, or snake_case)',
+        'Component name must be in a valid case format (PascalCase, camelCase, kebab-case, snake_case, CONSTANT_CASE, Title Case, dot.case, flatcase, or Train-Case)',
       );
     });
   });
 
+  describe('validateComponentPath', () => {
+    it('should accept component names with parent folders', () => {
+      expect(validateComponentPath('TextInput')).toBeNull();
+      expect(validateComponentPath('forms/inputs/TextInput')).toBeNull();
+    });
+
+    it('should reject empty or invalid folders', () => {
+      expect(validateComponentPath('forms//TextInput')).toMatch(/^Each folder in the path/);
+      expect(validateComponentPath('../TextInput')).toMatch(/^Each folder in the path/);
+      expect(validateComponentPath('forms/')).toMatch(/^Component name must be/);
+    });
+  });
+
   describe('findConfig', () => {
     beforeEach(() => {
       jest.clearAllMocks();
@@ -103,10 +121,12 @@ describe('configurationUtils', () => {
       const parentPath = '/path/to/project';
       const mockConfigPath = path.join(parentPath, '.component-templates.json');
 
-      (fs.readFile as jest.Mock)
-        .mockRejectedValueOnce(new Error('File not found'))
-        .mockRejectedValueOnce(new Error('File not found'))
-        .mockResolvedValueOnce(JSON.stringify(validConfig));
+      (fs.readFile as jest.Mock).mockImplementation(async (filePath: string) => {
+        if (filePath !== mockConfigPath) {
+          throw new Error('File not found');
+        }
+        return JSON.stringify(validConfig);
+      });
 
       (fs.access as jest.Mock).mockResolvedValue(undefined); // Files exist
 
@@ -117,7 +137,36 @@ describe('configurationUtils', () => {
         configDir: parentPath,
       });
 
-      expect(fs.readFile).toHaveBeenNthCalledWith(3, mockConfigPath, 'utf-8');
+      expect(fs.readFile).toHaveBeenCalledWith(mockConfigPath, 'utf-8');
+    });
+
+    it('should load configs in other formats', async () => {
+      const configPath = path.join('/path/to/project', '.component-templates.yaml');
+      (fs.readFile as jest.Mock).mockImplementation(async (filePath: string) => {
+        if (filePath !== configPath) {
+          throw new Error('File not found');
+        }
+        return [
+          '# Shared templates',
+          'templatesDirectory: component-templates',
+          'templates:',
+          '  - content: export {};',
+          '    target: index.ts',
+          '    label: Index',
+          'defaultTemplateGroup: [Index]',
+        ].join('\n');
+      });
+
+      const result = await findConfig('/path/to/project');
+
+      expect(result).toEqual({
+        config: {
+          templatesDirectory: 'component-templates',
+          templates: [{ content: 'export {};', target: 'index.ts', label: 'Index' }],
+          defaultTemplateGroup: ['Index'],
+        },
+        configDir: '/path/to/project',
+      });
     });
 
     it('should show error and return null when config validation fails', async () => {
@@ -134,6 +183,294 @@ describe('configurationUtils', () => {
       expect(vscode.window.showErrorMessage).toHaveBeenCalled();
     });
 
+    it('should report invalid template variables', async () => {
+      const config = {
+        templatesDirectory: 'component-templates',
+        templates: [],
+        defaultTemplateGroup: [],
+        variables: [{ name: 'kind', type: 'enum', options: [] }],
+      };
+
+      (fs.readFile as jest.Mock).mockResolvedValueOnce(JSON.stringify(config));
+      (vscode.window.showErrorMessage as jest.Mock).mockResolvedValueOnce('Show Details');
+
+      const result = await findConfig('/path/to/project');
+
+      expect(result).toBeNull();
+      const channel = (vscode.window.createOutputChannel as jest.Mock).mock.results[0].value;
+      expect(channel.appendLine).toHaveBeenCalledWith(
+        '• Variable "kind" requires a non-empty options array of strings',
+      );
+    });
+
+    it('should report templates that are not objects instead of looking further up', async () => {
+      const config = {
+        templatesDirectory: 'component-templates',
+        templates: [null],
+        defaultTemplateGroup: [],
+      };
+
+      (fs.readFile as jest.Mock).mockResolvedValueOnce(JSON.stringify(config));
+      (vscode.window.showErrorMessage as jest.Mock).mockResolvedValueOnce('Show Details');
+
+      const result = await findConfig('/path/to/project/src');
+
+      expect(result).toBeNull();
+      expect(fs.readFile).toHaveBeenCalledTimes(1);
+      const channel = (vscode.window.createOutputChannel as jest.Mock).mock.results[0].value;
+      expect(channel.appendLine).toHaveBeenCalledWith('• Invalid template in templates array');
+    });
+
+    it('should report an unknown template engine', async () => {
+      const config = {
+        templatesDirectory: 'component-templates',
+        templates: [{ source: 'a.hbs', target: 'a.ts', label: 'A', engine: 'pug' }],
+        defaultTemplateGroup: [],
+      };
+
+      (fs.readFile as jest.Mock).mockResolvedValueOnce(JSON.stringify(config));
+      (vscode.window.showErrorMessage as jest.Mock).mockResolvedValueOnce('Show Details');
+
+      const result = await findConfig('/path/to/project');
+
+      expect(result).toBeNull();
+      const channel = (vscode.window.createOutputChannel as jest.Mock).mock.results[0].value;
+      expect(channel.appendLine).toHaveBeenCalledWith(
+        '• engine of template "a.hbs" must be one of: "default", "handlebars", "ejs", "mustache"',
+      );
+    });
+
+    it('should report an invalid template group directory case', async () => {
+      const config = {
+        templatesDirectory: 'component-templates',
+        templates: [],
+        defaultTemplateGroup: [],
+        alternateTemplateGroups: [{ label: 'Pages', templates: [], directoryCase: 'sentence' }],
+      };
+
+      (fs.readFile as jest.Mock).mockResolvedValueOnce(JSON.stringify(config));
+      (vscode.window.showErrorMessage as jest.Mock).mockResolvedValueOnce('Show Details');
+
+      const result = await findConfig('/path/to/project');
+
+      expect(result).toBeNull();
+      const channel = (vscode.window.createOutputChannel as jest.Mock).mock.results[0].value;
+      expect(channel.appendLine).toHaveBeenCalledWith(
+        expect.stringMatching(/^• directoryCase of group "Pages" must be one of/),
+      );
+    });
+
+    it('should report invalid hooks', async () => {
+      const config = {
+        templatesDirectory: 'component-templates',
+        templates: [{ source: 'component.tsx.template', target: 'Component.tsx', label: 'C' }],
+        defaultTemplateGroup: ['component.tsx.template'],
+        hooks: {
+          format: 'yes',
+          open: ['component.tsx.template', 'index.ts.template'],
+          commands: 'eslint',
+        },
+      };
+
+      (fs.readFile as jest.Mock).mockResolvedValueOnce(JSON.stringify(config));
+      (vscode.window.showErrorMessage as jest.Mock).mockResolvedValueOnce('Show Details');
+
+      const result = await findConfig('/path/to/project');
+
+      expect(result).toBeNull();
+      const channel = (vscode.window.createOutputChannel as jest.Mock).mock.results[0].value;
+      const lines = channel.appendLine.mock.calls.map(([line]: [string]) => line);
+      expect(lines).toEqual(
+        expect.arrayContaining([
+          '• hooks.format must be a boolean',
+          '• Template "index.ts.template" referenced in hooks.open not found in templates array',
+          '• hooks.commands must be an array of shell commands',
+        ]),
+      );
+    });
+
+    it('should report reference file globs that are not strings', async () => {
+      const config = {
+        templatesDirectory: 'component-templates',
+        templates: [],
+        defaultTemplateGroup: [],
+        referenceFiles: ['**/*.ts', 42],
+      };
+
+      (fs.readFile as jest.Mock).mockResolvedValueOnce(JSON.stringify(config));
+      (vscode.window.showErrorMessage as jest.Mock).mockResolvedValueOnce('Show Details');
+
+      const result = await findConfig('/path/to/project');
+
+      expect(result).toBeNull();
+      const channel = (vscode.window.createOutputChannel as jest.Mock).mock.results[0].value;
+      expect(channel.appendLine).toHaveBeenCalledWith(
+        '• referenceFiles must be an array of glob patterns',
+      );
+    });
+
+    it('should require exactly one of source or inline content', async () => {
+      const config = {
+        templatesDirectory: 'component-templates',
+        templates: [
+          {
+            source: 'index.ts.template',
+            content: 'export {};',
+            target: 'index.ts',
+            label: 'Index',
+          },
+        ],
+        defaultTemplateGroup: [],
+      };
+
+      (fs.readFile as jest.Mock).mockResolvedValueOnce(JSON.stringify(config));
+      (vscode.window.showErrorMessage as jest.Mock).mockResolvedValueOnce('Show Details');
+
+      const result = await findConfig('/path/to/project');
+
+      expect(result).toBeNull();
+      const channel = (vscode.window.createOutputChannel as jest.Mock).mock.results[0].value;
+      expect(channel.appendLine).toHaveBeenCalledWith(
+        '• Template "index.ts.template" must have exactly one of "source" or "content"',
+      );
+    });
+
+    it('should accept inline templates referenced by label without checking for files', async () => {
+      const config = {
+        templatesDirectory: 'component-templates',
+        templates: [{ content: ['export {};', ''], target: 'index.ts', label: 'Index' }],
+        defaultTemplateGroup: ['Index'],
+      };
+
+      (fs.readFile as jest.Mock).mockResolvedValueOnce(JSON.stringify(config));
+
+      const result = await findConfig('/path/to/project');
+
+      expect(result).toEqual({ config, configDir: '/path/to/project' });
+      expect(fs.access).not.toHaveBeenCalled();
+    });
+
+    describe('extends', () => {
+      const rootDir = '/repo';
+      const packageDir = path.join('/repo', 'packages', 'ui');
+
+      const rootConfig = {
+        templatesDirectory: 'component-templates',
+        directoryCase: 'kebab',
+        templates: [
+          {
+            source: 'component.tsx.template',
+            target: '{{PascalCaseComponentName}}.tsx',
+            label: 'C',
+          },
+          { source: 'index.ts.template', target: 'index.ts', label: 'Index' },
+        ],
+        defaultTemplateGroup: ['component.tsx.template', 'index.ts.template'],
+        alternateTemplateGroups: [{ label: 'Bare', templates: ['component.tsx.template'] }],
+      };
+
+      function mockConfigFiles(files: Record<string, object>) {
+        (fs.readFile as jest.Mock).mockImplementation(async (filePath: string) => {
+          if (!(filePath in files)) {
+            throw new Error('File not found');
+          }
+          return JSON.stringify(files[filePath]);
+        });
+        (fs.access as jest.Mock).mockResolvedValue(undefined);
+      }
+
+      it('should merge the extended config, resolving inherited templates in its own directory', async () => {
+        const packageConfig = {
+          extends: '../..',
+          directoryCase: 'pascal',
+          templates: [
+            { source: 'index.ts.template', target: 'index.tsx', label: 'Index' },
+            { content: 'export {};', target: 'types.ts', label: 'Types' },
+          ],
+          alternateTemplateGroups: [
+            { label: 'Typed', templates: ['component.tsx.template', 'Types'] },
+          ],
+        };
+        mockConfigFiles({
+          [path.join(rootDir, '.component-templates.json')]: rootConfig,
+          [path.join(packageDir, '.component-templates.json')]: packageConfig,
+        });
+
+        const result = await findConfig(packageDir);
+
+        expect(result?.configDir).toBe(packageDir);
+        expect(result?.config).toMatchObject({
+          templatesDirectory: 'component-templates',
+          directoryCase: 'pascal',
+          defaultTemplateGroup: ['component.tsx.template', 'index.ts.template'],
+          templates: [
+            {
+              source: 'component.tsx.template',
+              templatesPath: path.join(rootDir, 'component-templates'),
+            },
+            { source: 'index.ts.template', target: 'index.tsx' },
+            { content: 'export {};', label: 'Types' },
+          ],
+          alternateTemplateGroups: [
+            { label: 'Bare', templates: ['component.tsx.template'] },
+            { label: 'Typed', templates: ['component.tsx.template', 'Types'] },
+          ],
+        });
+        // Templates declared by the package config resolve in the package's templates directory
+        expect(result?.config.templates[1].templatesPath).toBeUndefined();
+        expect(fs.access).toHaveBeenCalledWith(
+          path.join(packageDir, 'component-templates', 'index.ts.template'),
+        );
+      });
+
+      it('should report errors under the config file they come from', async () => {
+        mockConfigFiles({
+          [path.join(rootDir, '.component-templates.json')]: {
+            ...rootConfig,
+            directoryCase: 'upper',
+          },
+          [path.join(packageDir, '.component-templates.json')]: {
+            extends: '../../.component-templates.json',
+            defaultTemplateGroup: ['missing.template'],
+          },
+        });
+        (vscode.window.showErrorMessage as jest.Mock).mockResolvedValueOnce('Show Details');
+
+        const result = await findConfig(packageDir);
+
+        expect(result).toBeNull();
+        const channel = (vscode.window.createOutputChannel as jest.Mock).mock.results[0].value;
+        const lines = channel.appendLine.mock.calls.map(([line]: [string]) => line);
+        const rootIndex = lines.indexOf(
+          `Config file: ${path.join(rootDir, '.component-templates.json')}`,
+        );
+        const packageIndex = lines.indexOf(
+          `Config file: ${path.join(packageDir, '.component-templates.json')}`,
+        );
+        expect(lines[rootIndex + 3]).toMatch(/^• directoryCase must be one of/);
+        expect(lines[packageIndex + 3]).toBe(
+          '• Template "missing.template" referenced in defaultTemplateGroup not found in templates array',
+        );
+      });
+
+      it('should report circular extends', async () => {
+        mockConfigFiles({
+          [path.join(rootDir, '.component-templates.json')]: {
+            ...rootConfig,
+            extends: './packages/ui',
+          },
+          [path.join(packageDir, '.component-templates.json')]: { extends: '../..' },
+        });
+        (vscode.window.showErrorMessage as jest.Mock).mockResolvedValueOnce('Show Details');
+
+        expect(await findConfig(packageDir)).toBeNull();
+        const channel = (vscode.window.createOutputChannel as jest.Mock).mock.results[0].value;
+        expect(channel.appendLine).toHaveBeenCalledWith(
+          expect.stringMatching(/^• Circular extends: .* -> .* -> .*$/),
+        );
+      });
+    });
+
     it('should show error and return null for invalid JSON', async () => {
       (fs.readFile as jest.Mock).mockResolvedValueOnce('{ invalid json }');
 
@@ -150,7 +487,7 @@ describe('configurationUtils', () => {
 
       expect(result).toBeNull();
       expect(vscode.window.showErrorMessage).toHaveBeenCalledWith(
-        'No .component-templates.json found in this directory or any parent directories.',
+        'No component templates config found in this directory or any parent directories. Add one of .component-templates.json, .component-templates.jsonc, .component-templates.yaml, .component-templates.yml, component-templates.config.js, component-templates.config.mjs, or a "componentTemplates" key to package.json.',
       );
     });
   });
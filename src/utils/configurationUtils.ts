@@ -1,139 +1,693 @@
 import * as vscode from 'vscode';
 import * as path from 'path';
 import * as fs from 'fs/promises';
-import { CaseType, isValidCase } from './caseUtils';
+import { CASE_TYPES, CaseType, isValidCase, splitComponentPath, transform } from './caseUtils';
+import { TEMPLATE_ENGINES, TemplateEngine } from './engineUtils';
+import { CONFLICT_POLICIES, ConflictPolicy } from './conflictUtils';
+import {
+  CONFIG_FILE_NAMES,
+  ConfigFile,
+  ConfigPath,
+  findConfigFile,
+  isConfigFileName,
+  PACKAGE_JSON_KEY,
+  parseConfigFile,
+} from './configFileUtils';
 
 export type TemplateItem = {
-  source: string;
+  // Either a file or folder in the templates directory, or inline content (one line per array item)
+  source?: string;
+  content?: string | string[];
   target: string;
   label: string;
+  engine?: TemplateEngine;
+  // Set when loading the config for templates inherited through "extends": the templates
+  // directory of the config that declared them
+  templatesPath?: string;
 };
 
 export type TemplateGroup = {
   label: string;
   templates: string[];
+  // Overrides the config's directoryCase for components created from this group
+  directoryCase?: CaseType;
+  // Generate files directly into the selected folder, without a component directory
+  flat?: boolean;
+};
+
+export type TemplateVariableType = 'string' | 'boolean' | 'enum' | 'multiSelect';
+
+export type TemplateVariable = {
+  name: string;
+  type: TemplateVariableType;
+  prompt?: string;
+  default?: string | boolean | string[];
+  options?: string[];
+};
+
+// Steps run on the generated files once a generation has written them
+export type GenerationHooks = {
+  // Format with the formatter configured for each file's language
+  format?: boolean;
+  organizeImports?: boolean;
+  // Templates whose files are opened in an editor, referenced like in template groups
+  open?: string[];
+  // Shell commands run with the generated paths as arguments. Only run in trusted workspaces
+  commands?: string[];
 };
 
 export type TemplateConfig = {
+  // Path to another config whose settings this one inherits and overrides
+  extends?: string;
   templatesDirectory: string;
   directoryCase?: CaseType;
   templates: TemplateItem[];
   defaultTemplateGroup: string[];
   alternateTemplateGroups?: TemplateGroup[];
+  variables?: TemplateVariable[];
+  irregularPlurals?: Record<string, string>;
+  engine?: TemplateEngine;
+  // Show the files to be generated, with Apply/Cancel, before writing them
+  preview?: boolean;
+  // What to do with generated files that already exist
+  onConflict?: ConflictPolicy;
+  hooks?: GenerationHooks;
+  // Let rename and fork also rewrite the name inside longer identifiers, e.g. ButtonGroup
+  rewriteCompoundNames?: boolean;
+  // Globs of the files searched for references when renaming a component
+  referenceFiles?: string[];
 };
 
+// Template groups reference templates by source, or by label for inline templates
+export function getTemplateKey(template: TemplateItem): string {
+  return template.source ?? template.label;
+}
+
+// Every case a name can be typed in, each written in itself: "PascalCase, camelCase, ..."
+function describeCaseFormats(): string {
+  const names = CASE_TYPES.map((caseType) => transform(`${caseType}-case`, caseType));
+  return `${names.slice(0, -1).join(', ')}, or ${names[names.length - 1]}`;
+}
+
 export function getComponentNamePrompt(): string {
-  return 'Component name (PascalCase, camelCase, kebab-case, or snake_case)';
+  return `Component name (${describeCaseFormats()})`;
 }
 
 export function validateComponentName(name: string): string | null {
   if (!isValidCase(name)) {
-    return 'Component name must be in a valid case format (PascalCase, camelCase, kebab-case, or snake_case)';
+    return `Component name must be in a valid case format (${describeCaseFormats()})`;
   }
   return null;
 }
 
-function validateConfig(config: any): config is TemplateConfig {
-  if (!config.templatesDirectory || typeof config.templatesDirectory !== 'string') {
-    throw new Error('Missing or invalid templatesDirectory configuration');
+// Like validateComponentName, but also accepts parent folders, e.g. forms/inputs/TextInput
+export function validateComponentPath(input: string): string | null {
+  const { folders, name } = splitComponentPath(input);
+  if (folders.some((folder) => !isValidCase(folder))) {
+    return `Each folder in the path must be in a valid case format (${describeCaseFormats()})`;
   }
+  return validateComponentName(name);
+}
 
-  if (config.templatesDirectory.includes('/') || config.templatesDirectory.includes('\\')) {
-    throw new Error(
-      'templatesDirectory must be a directory name without any path segments (e.g. "component-templates" not "./templates" or "path/to/templates")',
-    );
+export interface ConfigError {
+  configPath: string;
+  message: string;
+  // Where in the config file the problem is, when known
+  path?: ConfigPath;
+}
+
+interface ConfigIssue {
+  message: string;
+  path: ConfigPath;
+}
+
+interface ValidationOptions {
+  // Configs that extend or are extended may leave out required settings
+  partial?: boolean;
+  // Keys of every template available to the config, including inherited ones
+  templateKeys?: Set<string>;
+}
+
+export function isObject(value: unknown): value is Record<string, any> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function validateConfig(config: any, options: ValidationOptions = {}): ConfigIssue[] {
+  const { partial = false } = options;
+  const issues: ConfigIssue[] = [];
+  const report = (message: string, ...path: ConfigPath) => issues.push({ message, path });
+
+  if (!partial || config.templatesDirectory !== undefined) {
+    if (!config.templatesDirectory || typeof config.templatesDirectory !== 'string') {
+      report('Missing or invalid templatesDirectory configuration', 'templatesDirectory');
+    } else if (
+      config.templatesDirectory.includes('/') ||
+      config.templatesDirectory.includes('\\')
+    ) {
+      report(
+        'templatesDirectory must be a directory name without any path segments (e.g. "component-templates" not "./templates" or "path/to/templates")',
+        'templatesDirectory',
+      );
+    }
   }
 
   if (config.directoryCase !== undefined) {
-    const validCases: CaseType[] = ['pascal', 'camel', 'kebab', 'snake'];
-    if (!validCases.includes(config.directoryCase)) {
-      throw new Error('directoryCase must be one of: "pascal", "camel", "kebab", or "snake"');
+    if (!CASE_TYPES.includes(config.directoryCase)) {
+      report(
+        `directoryCase must be one of: ${CASE_TYPES.map((caseType) => `"${caseType}"`).join(', ')}`,
+        'directoryCase',
+      );
     }
   }
 
-  if (!Array.isArray(config.templates)) {
-    throw new Error('Missing or invalid templates array configuration');
+  const engineList = TEMPLATE_ENGINES.map((engine) => `"${engine}"`).join(', ');
+  if (config.engine !== undefined && !TEMPLATE_ENGINES.includes(config.engine)) {
+    report(`engine must be one of: ${engineList}`, 'engine');
   }
 
-  if (!Array.isArray(config.defaultTemplateGroup)) {
-    throw new Error('Missing or invalid defaultTemplateGroup configuration');
+  for (const key of ['preview', 'rewriteCompoundNames']) {
+    if (config[key] !== undefined && typeof config[key] !== 'boolean') {
+      report(`${key} must be a boolean`, key);
+    }
   }
 
-  // Validate that all templates referenced in groups exist in the templates array
-  const templateSources = new Set(config.templates?.map((t: TemplateItem) => t.source));
+  if (
+    config.referenceFiles !== undefined &&
+    (!Array.isArray(config.referenceFiles) ||
+      config.referenceFiles.some((glob: unknown) => typeof glob !== 'string'))
+  ) {
+    report('referenceFiles must be an array of glob patterns', 'referenceFiles');
+  }
 
-  // Check defaultTemplateGroup references
-  for (const source of config.defaultTemplateGroup) {
-    if (!templateSources.has(source)) {
-      throw new Error(
-        `Template "${source}" referenced in defaultTemplateGroup not found in templates array`,
+  if (config.onConflict !== undefined && !CONFLICT_POLICIES.includes(config.onConflict)) {
+    report(
+      `onConflict must be one of: ${CONFLICT_POLICIES.map((policy) => `"${policy}"`).join(', ')}`,
+      'onConflict',
+    );
+  }
+
+  const templates = Array.isArray(config.templates) ? config.templates : [];
+  if ((!partial || config.templates !== undefined) && !Array.isArray(config.templates)) {
+    report('Missing or invalid templates array configuration', 'templates');
+  }
+
+  templates.forEach((template: any, index: number) => {
+    if (!isObject(template)) {
+      report('Invalid template in templates array', 'templates', index);
+      return;
+    }
+    issues.push(...validateTemplateItem(template, ['templates', index]));
+    if (template.engine !== undefined && !TEMPLATE_ENGINES.includes(template.engine)) {
+      report(
+        `engine of template "${getTemplateKey(template as TemplateItem)}" must be one of: ${engineList}`,
+        'templates',
+        index,
+        'engine',
       );
     }
+  });
+
+  // Validate that all templates referenced in groups exist in the templates array
+  const templateSources =
+    options.templateKeys ??
+    new Set(templates.filter(isObject).map((t: TemplateItem) => getTemplateKey(t)));
+
+  if (
+    (!partial || config.defaultTemplateGroup !== undefined) &&
+    !Array.isArray(config.defaultTemplateGroup)
+  ) {
+    report('Missing or invalid defaultTemplateGroup configuration', 'defaultTemplateGroup');
+  } else {
+    // Check defaultTemplateGroup references
+    (config.defaultTemplateGroup ?? []).forEach((source: string, index: number) => {
+      if (!templateSources.has(source)) {
+        report(
+          `Template "${source}" referenced in defaultTemplateGroup not found in templates array`,
+          'defaultTemplateGroup',
+          index,
+        );
+      }
+    });
   }
 
   // Check alternateTemplateGroups references
-  if (config.alternateTemplateGroups) {
-    for (const group of config.alternateTemplateGroups) {
-      if (!group.label || typeof group.label !== 'string') {
-        throw new Error('Invalid or missing label in alternateTemplateGroup');
-      }
-      if (!Array.isArray(group.templates)) {
-        throw new Error(`Invalid templates array in alternateTemplateGroup "${group.label}"`);
-      }
-      for (const source of group.templates) {
+  if (config.alternateTemplateGroups !== undefined) {
+    if (!Array.isArray(config.alternateTemplateGroups)) {
+      report('alternateTemplateGroups must be an array', 'alternateTemplateGroups');
+    } else {
+      config.alternateTemplateGroups.forEach((group: any, groupIndex: number) => {
+        const groupPath = ['alternateTemplateGroups', groupIndex];
+        if (!isObject(group) || !group.label || typeof group.label !== 'string') {
+          report('Invalid or missing label in alternateTemplateGroup', ...groupPath);
+          return;
+        }
+        if (group.directoryCase !== undefined && !CASE_TYPES.includes(group.directoryCase)) {
+          report(
+            `directoryCase of group "${group.label}" must be one of: ${CASE_TYPES.map((caseType) => `"${caseType}"`).join(', ')}`,
+            ...groupPath,
+            'directoryCase',
+          );
+        }
+        if (group.flat !== undefined && typeof group.flat !== 'boolean') {
+          report(`flat of group "${group.label}" must be a boolean`, ...groupPath, 'flat');
+        }
+        if (!Array.isArray(group.templates)) {
+          report(
+            `Invalid templates array in alternateTemplateGroup "${group.label}"`,
+            ...groupPath,
+            'templates',
+          );
+          return;
+        }
+        group.templates.forEach((source: string, index: number) => {
+          if (!templateSources.has(source)) {
+            report(
+              `Template "${source}" referenced in group "${group.label}" not found in templates array`,
+              ...groupPath,
+              'templates',
+              index,
+            );
+          }
+        });
+      });
+    }
+  }
+
+  if (config.hooks !== undefined) {
+    issues.push(...validateHooks(config.hooks, templateSources));
+  }
+
+  if (config.variables !== undefined) {
+    issues.push(...validateVariables(config.variables));
+  }
+
+  if (config.irregularPlurals !== undefined) {
+    const isStringMap =
+      isObject(config.irregularPlurals) &&
+      Object.values(config.irregularPlurals).every((plural) => typeof plural === 'string');
+    if (!isStringMap) {
+      report(
+        'irregularPlurals must be an object mapping singular words to plural words (e.g. { "person": "people" })',
+        'irregularPlurals',
+      );
+    }
+  }
+
+  return issues;
+}
+
+function validateTemplateItem(template: any, templatePath: ConfigPath): ConfigIssue[] {
+  const hasSource = template.source !== undefined;
+  const hasContent = template.content !== undefined;
+  const name = template.source ?? template.label;
+
+  if (hasSource === hasContent) {
+    return [
+      {
+        message: `Template "${name}" must have exactly one of "source" or "content"`,
+        path: templatePath,
+      },
+    ];
+  }
+
+  if (hasSource && typeof template.source !== 'string') {
+    return [
+      {
+        message: `Invalid source in template "${template.label}"`,
+        path: [...templatePath, 'source'],
+      },
+    ];
+  }
+
+  // Inline templates are referenced by label, so they need one
+  if (hasContent && (!template.label || typeof template.label !== 'string')) {
+    return [{ message: 'Templates with inline content need a label', path: templatePath }];
+  }
+
+  const isLines =
+    Array.isArray(template.content) &&
+    template.content.every((line: unknown) => typeof line === 'string');
+  if (hasContent && typeof template.content !== 'string' && !isLines) {
+    return [
+      {
+        message: `content of template "${template.label}" must be a string or an array of lines`,
+        path: [...templatePath, 'content'],
+      },
+    ];
+  }
+
+  return [];
+}
+
+function validateHooks(hooks: any, templateSources: Set<string>): ConfigIssue[] {
+  if (!isObject(hooks)) {
+    return [{ message: 'hooks must be an object', path: ['hooks'] }];
+  }
+
+  const issues: ConfigIssue[] = [];
+  const report = (message: string, ...path: ConfigPath) =>
+    issues.push({ message, path: ['hooks', ...path] });
+  const isStringArray = (value: unknown) =>
+    Array.isArray(value) && value.every((item) => typeof item === 'string');
+
+  for (const key of ['format', 'organizeImports']) {
+    if (hooks[key] !== undefined && typeof hooks[key] !== 'boolean') {
+      report(`hooks.${key} must be a boolean`, key);
+    }
+  }
+
+  if (hooks.open !== undefined) {
+    if (!isStringArray(hooks.open)) {
+      report('hooks.open must be an array of template references', 'open');
+    } else {
+      hooks.open.forEach((source: string, index: number) => {
         if (!templateSources.has(source)) {
-          throw new Error(
-            `Template "${source}" referenced in group "${group.label}" not found in templates array`,
+          report(
+            `Template "${source}" referenced in hooks.open not found in templates array`,
+            'open',
+            index,
           );
         }
-      }
+      });
     }
   }
 
-  return true;
+  if (hooks.commands !== undefined && !isStringArray(hooks.commands)) {
+    report('hooks.commands must be an array of shell commands', 'commands');
+  }
+
+  return issues;
+}
+
+function validateVariables(variables: any): ConfigIssue[] {
+  if (!Array.isArray(variables)) {
+    return [{ message: 'variables must be an array', path: ['variables'] }];
+  }
+
+  const validTypes: TemplateVariableType[] = ['string', 'boolean', 'enum', 'multiSelect'];
+  const names = new Set<string>();
+  const issues: ConfigIssue[] = [];
+
+  variables.forEach((variable: any, index: number) => {
+    const report = (message: string, ...path: ConfigPath) =>
+      issues.push({ message, path: ['variables', index, ...path] });
+
+    if (!isObject(variable) || !variable.name || typeof variable.name !== 'string') {
+      report('Invalid or missing name in variables');
+      return;
+    }
+    if (!/^[A-Za-z_$][\w$]*$/.test(variable.name)) {
+      report(
+        `Variable name "${variable.name}" must start with a letter and contain only letters, digits and underscores`,
+        'name',
+      );
+      return;
+    }
+    if (variable.name === 'name') {
+      report('Variable name "name" is reserved for the component name', 'name');
+      return;
+    }
+    if (names.has(variable.name)) {
+      report(`Variable "${variable.name}" is declared more than once`, 'name');
+      return;
+    }
+    names.add(variable.name);
+
+    if (!validTypes.includes(variable.type)) {
+      report(
+        `Variable "${variable.name}" type must be one of: "string", "boolean", "enum", or "multiSelect"`,
+        'type',
+      );
+      return;
+    }
+
+    const hasOptions = variable.type === 'enum' || variable.type === 'multiSelect';
+    if (hasOptions) {
+      if (
+        !Array.isArray(variable.options) ||
+        variable.options.length === 0 ||
+        variable.options.some((option: unknown) => typeof option !== 'string')
+      ) {
+        report(
+          `Variable "${variable.name}" requires a non-empty options array of strings`,
+          'options',
+        );
+        return;
+      }
+    }
+
+    if (variable.default === undefined) {
+      return;
+    }
+
+    const defaultIsValid =
+      variable.type === 'boolean' ? typeof variable.default === 'boolean'
+      : variable.type === 'multiSelect' ?
+        Array.isArray(variable.default) &&
+        variable.default.every((value: unknown) => variable.options.includes(value))
+      : variable.type === 'enum' ? variable.options.includes(variable.default)
+      : typeof variable.default === 'string';
+
+    if (!defaultIsValid) {
+      report(`Invalid default value for variable "${variable.name}"`, 'default');
+    }
+  });
+
+  return issues;
 }
 
-async function validateTemplates(config: TemplateConfig, templatesPath: string): Promise<string[]> {
-  const errors: string[] = [];
+async function validateTemplates(
+  templates: TemplateItem[],
+  templatesPath: string,
+): Promise<ConfigIssue[]> {
+  const issues: ConfigIssue[] = [];
 
   // Validate all template files exist
-  for (const template of config.templates) {
+  for (const [index, template] of templates.entries()) {
+    if (template.source === undefined) {
+      continue;
+    }
     try {
       await fs.access(path.join(templatesPath, template.source));
     } catch {
-      errors.push(`Template file not found: ${template.source}`);
+      issues.push({
+        message: `Template file not found: ${template.source}`,
+        path: ['templates', index, 'source'],
+      });
     }
   }
 
-  return errors;
+  return issues;
 }
 
-async function validateFullConfig(
+interface ConfigLayer {
+  configPath: string;
+  config: any;
+}
+
+// Load a config and the chain of configs it extends, base config first
+async function loadConfigLayers(
   config: any,
   configPath: string,
-): Promise<{ isValid: boolean; errors: string[] }> {
-  const errors: string[] = [];
+  chain: string[] = [],
+): Promise<{ layers: ConfigLayer[]; errors: ConfigError[] }> {
+  const layer = { configPath, config };
+  if (typeof config !== 'object' || config === null || Array.isArray(config)) {
+    return {
+      layers: [],
+      errors: [{ configPath, message: 'Configuration must be an object', path: [] }],
+    };
+  }
+
+  if (config.extends === undefined) {
+    return { layers: [layer], errors: [] };
+  }
+
+  if (typeof config.extends !== 'string') {
+    return {
+      layers: [layer],
+      errors: [
+        {
+          configPath,
+          message: 'extends must be the path to another config file',
+          path: ['extends'],
+        },
+      ],
+    };
+  }
 
+  // "extends" may point at the config file itself or at the folder containing it
+  const extendsPath = path.resolve(path.dirname(configPath), config.extends);
+  let extendedFile: ConfigFile | null = null;
   try {
-    if (!validateConfig(config)) {
-      return { isValid: false, errors: ['Invalid configuration format'] };
-    }
-    const templateErrors = await validateTemplates(
-      config,
-      path.join(path.dirname(configPath), config.templatesDirectory),
-    );
-    errors.push(...templateErrors);
+    extendedFile =
+      isConfigFileName(path.basename(extendsPath)) ?
+        { configPath: extendsPath, content: await fs.readFile(extendsPath, 'utf-8') }
+      : await findConfigFile(extendsPath);
+  } catch {
+    // Reported below
+  }
+
+  if (!extendedFile) {
+    return {
+      layers: [layer],
+      errors: [
+        { configPath, message: `Could not find extended config ${extendsPath}`, path: ['extends'] },
+      ],
+    };
+  }
 
+  const extendedPath = extendedFile.configPath;
+  const visited = [...chain, configPath];
+  if (visited.includes(extendedPath)) {
     return {
-      isValid: errors.length === 0,
-      errors,
+      layers: [layer],
+      errors: [
+        {
+          configPath,
+          message: `Circular extends: ${[...visited, extendedPath].join(' -> ')}`,
+          path: ['extends'],
+        },
+      ],
     };
+  }
+
+  let extendedConfig: any;
+  try {
+    extendedConfig = await parseConfigFile(extendedFile);
   } catch (error) {
     return {
-      isValid: false,
-      errors: [(error as Error).message],
+      layers: [layer],
+      errors: [
+        {
+          configPath,
+          message: `Could not load extended config ${extendedPath}: ${(error as Error).message}`,
+          path: ['extends'],
+        },
+      ],
     };
   }
+
+  const extended = await loadConfigLayers(extendedConfig, extendedPath, visited);
+  return { layers: [...extended.layers, layer], errors: extended.errors };
+}
+
+// Items from the overriding list replace items with the same key and the rest are appended
+function mergeByKey<T>(
+  base: T[] | undefined,
+  override: T[] | undefined,
+  getKey: (item: T) => string,
+): T[] | undefined {
+  if (!base || !override) {
+    return override ?? base;
+  }
+
+  const merged = [...base];
+  for (const item of override) {
+    const index = merged.findIndex((existing) => getKey(existing) === getKey(item));
+    if (index === -1) {
+      merged.push(item);
+    } else {
+      merged[index] = item;
+    }
+  }
+  return merged;
+}
+
+function mergeConfigs(base: any, override: any): any {
+  const merged = {
+    ...base,
+    ...override,
+    templates: mergeByKey(base.templates, override.templates, getTemplateKey),
+    alternateTemplateGroups: mergeByKey(
+      base.alternateTemplateGroups,
+      override.alternateTemplateGroups,
+      (group: TemplateGroup) => group.label,
+    ),
+    variables: mergeByKey(
+      base.variables,
+      override.variables,
+      (variable: TemplateVariable) => variable.name,
+    ),
+  };
+
+  if (base.irregularPlurals || override.irregularPlurals) {
+    merged.irregularPlurals = { ...base.irregularPlurals, ...override.irregularPlurals };
+  }
+
+  if (base.hooks || override.hooks) {
+    merged.hooks = { ...base.hooks, ...override.hooks };
+  }
+
+  return merged;
+}
+
+/**
+ * Load, validate and merge a config with the configs it extends. Templates inherited
+ * from another config keep resolving in that config's templates directory, and every
+ * error names the config file it comes from.
+ */
+export async function resolveConfig(
+  config: any,
+  configPath: string,
+): Promise<{ config: TemplateConfig | null; errors: ConfigError[] }> {
+  const { layers, errors } = await loadConfigLayers(config, configPath);
+  if (errors.length > 0) {
+    return { config: null, errors };
+  }
+
+  const templateKeys = new Set(
+    layers.flatMap(({ config }) =>
+      Array.isArray(config.templates) ? config.templates.filter(isObject).map(getTemplateKey) : [],
+    ),
+  );
+
+  for (const layer of layers) {
+    const issues = validateConfig(layer.config, { partial: layers.length > 1, templateKeys });
+    errors.push(...issues.map((issue) => ({ configPath: layer.configPath, ...issue })));
+  }
+  if (errors.length > 0) {
+    return { config: null, errors };
+  }
+
+  let merged: any = {};
+  let templatesDirectory: string | undefined;
+
+  for (const layer of layers) {
+    const isOwnConfig = layer.configPath === configPath;
+    templatesDirectory = layer.config.templatesDirectory ?? templatesDirectory;
+    const templatesPath =
+      templatesDirectory && path.join(path.dirname(layer.configPath), templatesDirectory);
+    const templates: TemplateItem[] = layer.config.templates ?? [];
+
+    if (templatesPath) {
+      const issues = await validateTemplates(templates, templatesPath);
+      errors.push(...issues.map((issue) => ({ configPath: layer.configPath, ...issue })));
+    } else if (templates.some((template) => template.source !== undefined)) {
+      errors.push({
+        configPath: layer.configPath,
+        message: 'Missing or invalid templatesDirectory configuration',
+        path: [],
+      });
+    }
+
+    merged = mergeConfigs(
+      merged,
+      isOwnConfig ?
+        layer.config
+      : {
+          ...layer.config,
+          templates: layer.config.templates?.map((template: TemplateItem) => ({
+            ...template,
+            templatesPath,
+          })),
+        },
+    );
+  }
+
+  errors.push(...validateConfig(merged).map((issue) => ({ configPath, ...issue })));
+
+  return errors.length > 0 ? { config: null, errors } : { config: merged, errors };
 }
 
 export async function findConfig(
@@ -142,57 +696,65 @@ export async function findConfig(
   let currentPath = startPath;
 
   while (currentPath !== path.dirname(currentPath)) {
+    const configFile = await findConfigFile(currentPath);
+    if (!configFile) {
+      currentPath = path.dirname(currentPath);
+      continue;
+    }
+    const { configPath } = configFile;
+
+    // A config that can't be read is reported, rather than falling back to a parent one
+    let resolved: Awaited<ReturnType<typeof resolveConfig>>;
     try {
-      const configPath = path.join(currentPath, '.component-templates.json');
-      const configContent = await fs.readFile(configPath, 'utf-8');
-
-      let parsedConfig: any;
-      try {
-        parsedConfig = JSON.parse(configContent);
-      } catch (parseError) {
-        vscode.window.showErrorMessage(
-          `Invalid component-generator config JSON in ${configPath}. Error: ${(parseError as Error).message}`,
-        );
-        return null;
-      }
+      resolved = await resolveConfig(await parseConfigFile(configFile), configPath);
+    } catch (error) {
+      vscode.window.showErrorMessage(
+        `Invalid component-generator config in ${configPath}. Error: ${error instanceof Error ? error.message : String(error)}`,
+      );
+      return null;
+    }
+    const { config, errors } = resolved;
 
-      const validationResult = await validateFullConfig(parsedConfig, configPath);
+    if (!config) {
+      const showDetails = 'Show Details';
+      const selected = await vscode.window.showErrorMessage(
+        'Configuration validation failed. Click "Show Details" for more information.',
+        showDetails,
+      );
 
-      if (!validationResult.isValid) {
-        const showDetails = 'Show Details';
-        const selected = await vscode.window.showErrorMessage(
-          'Configuration validation failed. Click "Show Details" for more information.',
-          showDetails,
-        );
+      if (selected === showDetails) {
+        const channel = vscode.window.createOutputChannel('Component Generator');
+        channel.clear();
+        channel.appendLine('Component Generator Configuration Errors:');
+        channel.appendLine('=======================================');
 
-        if (selected === showDetails) {
-          const channel = vscode.window.createOutputChannel('Component Generator');
-          channel.clear();
-          channel.appendLine('Component Generator Configuration Errors:');
-          channel.appendLine('=======================================');
-          channel.appendLine(`Config file: ${configPath}`);
+        // Group the errors by the config file they come from
+        const errorFiles = [...new Set(errors.map((error) => error.configPath))];
+        for (const errorFile of errorFiles) {
+          channel.appendLine(`Config file: ${errorFile}`);
           channel.appendLine('');
           channel.appendLine('Validation Errors:');
-          validationResult.errors.forEach((error) => {
-            channel.appendLine(`• ${error}`);
-          });
-          channel.show();
+          errors
+            .filter((error) => error.configPath === errorFile)
+            .forEach((error) => {
+              channel.appendLine(`• ${error.message}`);
+            });
         }
-
-        return null;
+        channel.show();
       }
 
-      return {
-        config: parsedConfig as TemplateConfig,
-        configDir: currentPath,
-      };
-    } catch (error) {
-      currentPath = path.dirname(currentPath);
+      return null;
     }
+
+    return {
+      config,
+      configDir: currentPath,
+    };
   }
 
+  const configFiles = CONFIG_FILE_NAMES.filter((name) => name !== 'package.json');
   vscode.window.showErrorMessage(
-    'No .component-templates.json found in this directory or any parent directories.',
+    `No component templates config found in this directory or any parent directories. Add one of ${configFiles.join(', ')}, or a "${PACKAGE_JSON_KEY}" key to package.json.`,
   );
   return null;
 }
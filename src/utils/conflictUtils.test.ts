@@ -0,0 +1,106 @@
+import * as vscode from 'vscode';
+import * as path from 'path';
+import {
+  describeGenerationResult,
+  getConflictResolver,
+  showGenerationResult,
+} from './conflictUtils';
+import { GenerationResult, PlannedFile } from './generationUtils';
+
+const file: PlannedFile = {
+  path: 'index.ts',
+  targetPath: path.join('/project', 'MyButton', 'index.ts'),
+  template: 'index.ts.template',
+  content: "export * from './MyButton';",
+  exists: true,
+};
+
+const emptyResult: GenerationResult = {
+  success: false,
+  addedFiles: [],
+  existingFiles: [],
+  overwrittenFiles: [],
+  mergedFiles: [],
+};
+
+describe('conflictUtils', () => {
+  describe('getConflictResolver', () => {
+    it('should skip existing files by default', async () => {
+      expect(await getConflictResolver()(file)).toBe('skip');
+      expect(await getConflictResolver('overwrite')(file)).toBe('overwrite');
+      expect(vscode.window.showQuickPick).not.toHaveBeenCalled();
+    });
+
+    it('should ask for each file, skipping it when the prompt is dismissed', async () => {
+      (vscode.window.showQuickPick as jest.Mock)
+        .mockResolvedValueOnce({ label: 'Keep Both', resolution: 'rename' })
+        .mockResolvedValueOnce(undefined);
+      const resolve = getConflictResolver('ask');
+
+      expect(await resolve(file)).toBe('rename');
+      expect(await resolve(file)).toBe('skip');
+      expect(vscode.window.showQuickPick).toHaveBeenCalledWith(
+        expect.arrayContaining([expect.objectContaining({ label: 'Overwrite' })]),
+        expect.objectContaining({ title: 'index.ts already exists' }),
+      );
+    });
+
+    it('should open files to merge beside the generated content', async () => {
+      expect(await getConflictResolver('merge')(file)).toBe('merge');
+
+      expect(vscode.commands.executeCommand).toHaveBeenCalledWith(
+        'vscode.diff',
+        expect.objectContaining({ scheme: 'component-preview' }),
+        vscode.Uri.file(file.targetPath),
+        'index.ts (generated ↔ existing)',
+      );
+    });
+  });
+
+  describe('describeGenerationResult', () => {
+    it('should list the files for everything other than created files', () => {
+      expect(
+        describeGenerationResult({
+          ...emptyResult,
+          addedFiles: ['MyButton.tsx'],
+          overwrittenFiles: ['index.ts'],
+          existingFiles: ['MyButton.test.tsx', 'styles.scss'],
+        }),
+      ).toBe(
+        'created 1 file(s), overwrote 1 file(s) (index.ts), skipped 2 existing file(s) (MyButton.test.tsx, styles.scss)',
+      );
+    });
+  });
+
+  describe('showGenerationResult', () => {
+    it('should show the success message when every file was created', () => {
+      showGenerationResult({ ...emptyResult, addedFiles: ['a.ts'] }, 'Component A', 'Created A!');
+
+      expect(vscode.window.showInformationMessage).toHaveBeenCalledWith('Created A!');
+    });
+
+    it('should report overwritten files without a warning', () => {
+      showGenerationResult(
+        { ...emptyResult, addedFiles: ['a.ts'], overwrittenFiles: ['b.ts'] },
+        'Component A',
+        'Created A!',
+      );
+
+      expect(vscode.window.showInformationMessage).toHaveBeenCalledWith(
+        'Component A: created 1 file(s), overwrote 1 file(s) (b.ts).',
+      );
+    });
+
+    it('should warn when files were skipped or failed', () => {
+      showGenerationResult(
+        { ...emptyResult, existingFiles: ['a.ts'] },
+        'Component A',
+        'Created A!',
+      );
+
+      expect(vscode.window.showWarningMessage).toHaveBeenCalledWith(
+        'Component A: created 0 file(s), skipped 1 existing file(s) (a.ts).',
+      );
+    });
+  });
+});
@@ -0,0 +1,92 @@
+import * as vscode from 'vscode';
+import { ConflictResolution, GenerationResult, PlannedFile } from './generationUtils';
+import { showMergeDiff } from './previewUtils';
+
+// What to do when a generated file already exists. "ask" prompts for each file
+export type ConflictPolicy = ConflictResolution | 'ask';
+
+export const CONFLICT_POLICIES: ConflictPolicy[] = ['skip', 'overwrite', 'rename', 'merge', 'ask'];
+
+interface ConflictItem extends vscode.QuickPickItem {
+  resolution: ConflictResolution;
+}
+
+const CONFLICT_ITEMS: ConflictItem[] = [
+  { label: 'Skip', description: 'Keep the existing file', resolution: 'skip' },
+  {
+    label: 'Overwrite',
+    description: 'Replace it with the generated file',
+    resolution: 'overwrite',
+  },
+  {
+    label: 'Keep Both',
+    description: 'Write the generated file with a numbered suffix',
+    resolution: 'rename',
+  },
+  {
+    label: 'Merge',
+    description: 'Compare the generated file with it and copy changes across by hand',
+    resolution: 'merge',
+  },
+];
+
+async function askForResolution(file: PlannedFile): Promise<ConflictResolution> {
+  const selected = await vscode.window.showQuickPick(CONFLICT_ITEMS, {
+    title: `${file.path} already exists`,
+    placeHolder: 'What should happen to the existing file?',
+    ignoreFocusOut: true,
+  });
+  // Dismissing the prompt leaves the file alone
+  return selected?.resolution ?? 'skip';
+}
+
+/**
+ * Decide what happens to each generated file that already exists, following the configured
+ * policy. Files resolved as "merge" are opened beside the generated content.
+ */
+export function getConflictResolver(
+  policy: ConflictPolicy = 'skip',
+): (file: PlannedFile) => Promise<ConflictResolution> {
+  return async (file) => {
+    const resolution = policy === 'ask' ? await askForResolution(file) : policy;
+    if (resolution === 'merge') {
+      await showMergeDiff(file);
+    }
+    return resolution;
+  };
+}
+
+// e.g. "created 2 file(s), skipped 1 existing file(s) (index.ts)"
+export function describeGenerationResult(result: GenerationResult): string {
+  const listFiles = (files: string[], description: string) =>
+    files.length > 0 ? [`${description} (${files.join(', ')})`] : [];
+
+  return [
+    `created ${result.addedFiles.length} file(s)`,
+    ...listFiles(result.overwrittenFiles, `overwrote ${result.overwrittenFiles.length} file(s)`),
+    ...listFiles(result.existingFiles, `skipped ${result.existingFiles.length} existing file(s)`),
+    ...listFiles(result.mergedFiles, `opened ${result.mergedFiles.length} file(s) to merge`),
+  ].join(', ');
+}
+
+// Tell the user what was written, with a warning when any file was skipped
+export function showGenerationResult(
+  result: GenerationResult,
+  subject: string,
+  successMessage: string,
+) {
+  const { addedFiles, existingFiles, overwrittenFiles, mergedFiles } = result;
+  const onlyAdded = existingFiles.length + overwrittenFiles.length + mergedFiles.length === 0;
+
+  if (onlyAdded && addedFiles.length > 0) {
+    vscode.window.showInformationMessage(successMessage);
+    return;
+  }
+
+  const message = `${subject}: ${describeGenerationResult(result)}.`;
+  if (addedFiles.length === 0 || existingFiles.length > 0) {
+    vscode.window.showWarningMessage(message);
+  } else {
+    vscode.window.showInformationMessage(message);
+  }
+}
@@ -0,0 +1,78 @@
+import * as vscode from 'vscode';
+import * as path from 'path';
+import { execFile } from 'child_process';
+import { getBuiltInVariables } from './contextUtils';
+
+jest.mock('child_process', () => ({
+  execFile: jest.fn(),
+}));
+
+describe('contextUtils', () => {
+  describe('getBuiltInVariables', () => {
+    beforeEach(() => {
+      jest.useFakeTimers({ now: new Date(2025, 3, 7, 12, 0, 0) });
+
+      (execFile as unknown as jest.Mock).mockImplementation((_file, args, _options, callback) => {
+        const values: Record<string, string> = {
+          'user.name': 'Ada Lovelace\n',
+          'user.email': 'ada@example.com\n',
+        };
+        callback(null, values[args[2]]);
+      });
+
+      (vscode.workspace.getWorkspaceFolder as jest.Mock).mockReturnValue({ name: 'web-app' });
+    });
+
+    afterEach(() => {
+      jest.useRealTimers();
+    });
+
+    it('should return date, author, location and template group values', async () => {
+      const configDir = path.join('/repo', 'packages', 'ui');
+      const targetDirectory = path.join(configDir, 'src', 'components');
+
+      const result = await getBuiltInVariables({
+        targetDirectory,
+        configDir,
+        templateGroupLabel: 'Simple Component',
+      });
+
+      expect(result).toEqual({
+        date: '2025-04-07',
+        year: '2025',
+        author: { name: 'Ada Lovelace', email: 'ada@example.com' },
+        relativeDirectory: 'src/components',
+        parentDirectoryName: 'components',
+        workspaceFolderName: 'web-app',
+        templateGroupLabel: 'Simple Component',
+      });
+
+      expect(execFile).toHaveBeenCalledWith(
+        'git',
+        ['config', '--get', 'user.name'],
+        { cwd: configDir },
+        expect.any(Function),
+      );
+    });
+
+    it('should fall back to empty strings when git and the workspace are unavailable', async () => {
+      (execFile as unknown as jest.Mock).mockImplementation((_file, _args, _options, callback) =>
+        callback(new Error('git not found'), ''),
+      );
+      (vscode.workspace.getWorkspaceFolder as jest.Mock).mockReturnValue(undefined);
+
+      const result = await getBuiltInVariables({
+        targetDirectory: '/repo/src',
+        configDir: '/repo',
+      });
+
+      expect(result).toEqual(
+        expect.objectContaining({
+          author: { name: '', email: '' },
+          workspaceFolderName: '',
+          templateGroupLabel: '',
+        }),
+      );
+    });
+  });
+});
@@ -0,0 +1,58 @@
+import * as vscode from 'vscode';
+import * as path from 'path';
+import { execFile } from 'child_process';
+import { TemplateContext } from './templateUtils';
+
+export interface BuiltInVariableOptions {
+  // The folder the component is being created in
+  targetDirectory: string;
+  // The folder containing the config file in use
+  configDir: string;
+  templateGroupLabel?: string;
+}
+
+// Reads a value from the git config in effect for the given directory, or '' if unavailable
+function readGitConfig(key: string, cwd: string): Promise<string> {
+  return new Promise((resolve) => {
+    execFile('git', ['config', '--get', key], { cwd }, (error, stdout) => {
+      resolve(error ? '' : stdout.trim());
+    });
+  });
+}
+
+function formatDate(date: Date): string {
+  const pad = (value: number) => String(value).padStart(2, '0');
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+}
+
+/**
+ * Values every template can use without declaring them: the current date, the git author,
+ * where the component is being created and which template group was chosen.
+ */
+export async function getBuiltInVariables({
+  targetDirectory,
+  configDir,
+  templateGroupLabel,
+}: BuiltInVariableOptions): Promise<TemplateContext> {
+  const now = new Date();
+
+  const [authorName, authorEmail] = await Promise.all([
+    readGitConfig('user.name', configDir),
+    readGitConfig('user.email', configDir),
+  ]);
+
+  const workspaceFolder = vscode.workspace.getWorkspaceFolder(vscode.Uri.file(targetDirectory));
+
+  return {
+    date: formatDate(now),
+    year: String(now.getFullYear()),
+    author: {
+      name: authorName,
+      email: authorEmail,
+    },
+    relativeDirectory: path.relative(configDir, targetDirectory).split(path.sep).join('/'),
+    parentDirectoryName: path.basename(targetDirectory),
+    workspaceFolderName: workspaceFolder?.name ?? '',
+    templateGroupLabel: templateGroupLabel ?? '',
+  };
+}
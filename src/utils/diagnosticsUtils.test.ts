@@ -0,0 +1,196 @@
+import * as vscode from 'vscode';
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import * as configurationUtils from './configurationUtils';
+import { getConfigDiagnostics, registerConfigDiagnostics } from './diagnosticsUtils';
+
+const projectDir = path.join('/path', 'to', 'project');
+
+function createDocument(fileName: string, text: string) {
+  return {
+    uri: { fsPath: path.join(projectDir, fileName), scheme: 'file' },
+    getText: () => text,
+    positionAt: (offset: number) => {
+      const lines = text.slice(0, offset).split('\n');
+      return { line: lines.length - 1, character: lines[lines.length - 1].length };
+    },
+  } as unknown as vscode.TextDocument;
+}
+
+// Text covered by a diagnostic, assuming it doesn't span lines
+function rangeText(text: string, { range }: vscode.Diagnostic) {
+  return text.split('\n')[range.start.line].slice(range.start.character, range.end.character);
+}
+
+const validConfig = {
+  templatesDirectory: 'component-templates',
+  templates: [
+    { source: 'component.tsx.template', target: '{{PascalCaseComponentName}}.tsx', label: 'C' },
+  ],
+  defaultTemplateGroup: ['component.tsx.template'],
+};
+
+describe('diagnosticsUtils', () => {
+  beforeEach(() => {
+    (fs.access as jest.Mock).mockResolvedValue(undefined);
+  });
+
+  describe('getConfigDiagnostics', () => {
+    it('should report nothing for a valid config', async () => {
+      const document = createDocument(
+        '.component-templates.json',
+        JSON.stringify(validConfig, null, 2),
+      );
+
+      expect(await getConfigDiagnostics(document)).toEqual([]);
+    });
+
+    it('should point at the invalid values', async () => {
+      const text = JSON.stringify(
+        {
+          ...validConfig,
+          directoryCase: 'upper',
+          defaultTemplateGroup: ['component.tsx.template', 'missing'],
+        },
+        null,
+        2,
+      );
+      const document = createDocument('.component-templates.json', text);
+
+      const diagnostics = await getConfigDiagnostics(document);
+
+      expect(
+        diagnostics.map((diagnostic) => [diagnostic.message, rangeText(text, diagnostic)]),
+      ).toEqual([
+        [expect.stringMatching(/^directoryCase must be one of/), '"upper"'],
+        [
+          'Template "missing" referenced in defaultTemplateGroup not found in templates array',
+          '"missing"',
+        ],
+      ]);
+      expect(diagnostics[0]).toMatchObject({
+        severity: vscode.DiagnosticSeverity.Error,
+        source: 'Component Manager',
+      });
+    });
+
+    it('should point at the source of missing template files', async () => {
+      (fs.access as jest.Mock).mockRejectedValue(new Error('ENOENT'));
+      const text = JSON.stringify(validConfig, null, 2);
+      const document = createDocument('.component-templates.json', text);
+
+      const [diagnostic] = await getConfigDiagnostics(document);
+
+      expect(diagnostic.message).toBe('Template file not found: component.tsx.template');
+      expect(rangeText(text, diagnostic)).toBe('"component.tsx.template"');
+      expect(diagnostic.range.start.line).toBe(4);
+    });
+
+    it('should locate problems in YAML configs', async () => {
+      const text = [
+        'templatesDirectory: component-templates',
+        'directoryCase: upper',
+        'templates: []',
+        'defaultTemplateGroup: []',
+      ].join('\n');
+      const document = createDocument('.component-templates.yaml', text);
+
+      const [diagnostic] = await getConfigDiagnostics(document);
+
+      expect(diagnostic.range.start).toEqual({ line: 1, character: 15 });
+      expect(rangeText(text, diagnostic)).toBe('upper');
+    });
+
+    it('should locate syntax errors', async () => {
+      const text = '{\n  "templatesDirectory": "component-templates"\n  "templates": []\n}';
+      const document = createDocument('.component-templates.jsonc', text);
+
+      const [diagnostic] = await getConfigDiagnostics(document);
+
+      expect(diagnostic.message).toBe('Invalid config: CommaExpected at line 3');
+      expect(diagnostic.range.start).toEqual({ line: 2, character: 2 });
+    });
+
+    it('should report problems of extended configs on the extends property', async () => {
+      const extendedPath = path.join(projectDir, '..', '.component-templates.json');
+      (fs.readFile as jest.Mock).mockImplementation(async (filePath: string) => {
+        if (filePath !== extendedPath) {
+          throw new Error('File not found');
+        }
+        return JSON.stringify({ ...validConfig, directoryCase: 'upper' });
+      });
+      const text = JSON.stringify({ extends: '..' }, null, 2);
+      const document = createDocument('.component-templates.json', text);
+
+      const [diagnostic] = await getConfigDiagnostics(document);
+
+      expect(diagnostic.message).toMatch(
+        `${path.join('..', '.component-templates.json')}: directoryCase must be one of`,
+      );
+      expect(rangeText(text, diagnostic)).toBe('".."');
+    });
+  });
+
+  describe('registerConfigDiagnostics', () => {
+    it('should update diagnostics when config files are saved', async () => {
+      const context = { subscriptions: [] as vscode.Disposable[] };
+      registerConfigDiagnostics(context as unknown as vscode.ExtensionContext);
+
+      const collection = (vscode.languages.createDiagnosticCollection as jest.Mock).mock.results[0]
+        .value;
+      const onSave = (vscode.workspace.onDidSaveTextDocument as jest.Mock).mock.calls[0][0];
+
+      await onSave(createDocument('package.json', '{ "name": "app" }'));
+      expect(collection.set).not.toHaveBeenCalled();
+
+      await onSave(createDocument('.component-templates.json', JSON.stringify(validConfig)));
+      expect(collection.set).toHaveBeenCalledWith(
+        expect.objectContaining({ fsPath: path.join(projectDir, '.component-templates.json') }),
+        [],
+      );
+      expect(context.subscriptions).toContain(collection);
+    });
+
+    it('should not check JavaScript configs until the workspace is trusted', async () => {
+      const document = createDocument('component-templates.config.js', 'module.exports = {};');
+      Object.assign(vscode.workspace, { isTrusted: false, textDocuments: [document] });
+      registerConfigDiagnostics({ subscriptions: [] } as unknown as vscode.ExtensionContext);
+
+      const collection = (vscode.languages.createDiagnosticCollection as jest.Mock).mock.results[0]
+        .value;
+      const onGrantTrust = (vscode.workspace.onDidGrantWorkspaceTrust as jest.Mock).mock
+        .calls[0][0];
+      await new Promise(setImmediate);
+      expect(collection.set).not.toHaveBeenCalled();
+
+      Object.assign(vscode.workspace, { isTrusted: true });
+      onGrantTrust();
+      await new Promise(setImmediate);
+
+      Object.assign(vscode.workspace, { textDocuments: [] });
+      expect(collection.set).toHaveBeenCalledWith(document.uri, expect.any(Array));
+    });
+
+    it('should report errors thrown while checking a config at the start of the file', async () => {
+      jest
+        .spyOn(configurationUtils, 'resolveConfig')
+        .mockRejectedValueOnce(new Error('EACCES: permission denied'));
+      registerConfigDiagnostics({ subscriptions: [] } as unknown as vscode.ExtensionContext);
+
+      const collection = (vscode.languages.createDiagnosticCollection as jest.Mock).mock.results[0]
+        .value;
+      const onOpen = (vscode.workspace.onDidOpenTextDocument as jest.Mock).mock.calls[0][0];
+
+      await onOpen(createDocument('.component-templates.json', JSON.stringify(validConfig)));
+      const [[, diagnostics]] = collection.set.mock.calls;
+      expect(diagnostics).toEqual([
+        expect.objectContaining({
+          message: 'Invalid config: EACCES: permission denied',
+          range: expect.objectContaining({
+            start: expect.objectContaining({ line: 0, character: 0 }),
+          }),
+        }),
+      ]);
+    });
+  });
+});
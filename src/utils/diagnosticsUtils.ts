@@ -0,0 +1,118 @@
+import * as vscode from 'vscode';
+import * as path from 'path';
+import {
+  ConfigFile,
+  ConfigLocation,
+  isConfigFile,
+  isJavaScript,
+  locateInConfigFile,
+  locateParseError,
+  parseConfigFile,
+} from './configFileUtils';
+import { resolveConfig } from './configurationUtils';
+
+const DIAGNOSTIC_SOURCE = 'Component Manager';
+
+function createDiagnostic(
+  document: vscode.TextDocument,
+  message: string,
+  location: ConfigLocation | null,
+): vscode.Diagnostic {
+  // Without a location, e.g. for JavaScript configs, point at the start of the file
+  const range =
+    location ?
+      new vscode.Range(
+        document.positionAt(location.offset),
+        document.positionAt(location.offset + location.length),
+      )
+    : new vscode.Range(0, 0, 0, 0);
+
+  const diagnostic = new vscode.Diagnostic(range, message, vscode.DiagnosticSeverity.Error);
+  diagnostic.source = DIAGNOSTIC_SOURCE;
+  return diagnostic;
+}
+
+/**
+ * Validate a config document and describe each problem with its location in the document.
+ * Problems in configs it extends are reported on its "extends" property.
+ */
+export async function getConfigDiagnostics(
+  document: vscode.TextDocument,
+): Promise<vscode.Diagnostic[]> {
+  const configFile: ConfigFile = { configPath: document.uri.fsPath, content: document.getText() };
+
+  let config: unknown;
+  try {
+    config = await parseConfigFile(configFile);
+  } catch (error) {
+    return [
+      createDiagnostic(
+        document,
+        `Invalid config: ${(error as Error).message}`,
+        locateParseError(configFile, error),
+      ),
+    ];
+  }
+
+  const { errors } = await resolveConfig(config, configFile.configPath);
+
+  return errors.map((error) => {
+    if (error.configPath !== configFile.configPath) {
+      const extendedFile = path.relative(path.dirname(configFile.configPath), error.configPath);
+      return createDiagnostic(
+        document,
+        `${extendedFile}: ${error.message}`,
+        locateInConfigFile(configFile, ['extends']),
+      );
+    }
+    return createDiagnostic(
+      document,
+      error.message,
+      locateInConfigFile(configFile, error.path ?? []),
+    );
+  });
+}
+
+async function updateDiagnostics(
+  document: vscode.TextDocument,
+  collection: vscode.DiagnosticCollection,
+) {
+  const configFile = { configPath: document.uri.fsPath, content: document.getText() };
+  if (document.uri.scheme !== 'file' || !isConfigFile(configFile)) {
+    // e.g. a package.json whose componentTemplates key was removed
+    collection.delete(document.uri);
+    return;
+  }
+  // Checking a JavaScript config runs it, which waits until the workspace is trusted
+  if (!vscode.workspace.isTrusted && isJavaScript(configFile.configPath)) {
+    collection.delete(document.uri);
+    return;
+  }
+
+  try {
+    collection.set(document.uri, await getConfigDiagnostics(document));
+  } catch (error) {
+    // Nothing awaits these updates, so an unexpected error is reported on the config instead
+    const message = error instanceof Error ? error.message : String(error);
+    collection.set(document.uri, [createDiagnostic(document, `Invalid config: ${message}`, null)]);
+  }
+}
+
+/**
+ * Report config problems in the Problems panel whenever a config file is opened or saved.
+ */
+export function registerConfigDiagnostics(context: vscode.ExtensionContext) {
+  const collection = vscode.languages.createDiagnosticCollection('component-templates');
+
+  const updateAll = () =>
+    vscode.workspace.textDocuments.forEach((document) => updateDiagnostics(document, collection));
+  updateAll();
+
+  context.subscriptions.push(
+    collection,
+    vscode.workspace.onDidGrantWorkspaceTrust(updateAll),
+    vscode.workspace.onDidOpenTextDocument((document) => updateDiagnostics(document, collection)),
+    vscode.workspace.onDidSaveTextDocument((document) => updateDiagnostics(document, collection)),
+    vscode.workspace.onDidCloseTextDocument((document) => collection.delete(document.uri)),
+  );
+}
@@ -0,0 +1,86 @@
+import * as vscode from 'vscode';
+import { renderWithEngine } from './engineUtils';
+
+describe('engineUtils', () => {
+  describe('renderWithEngine', () => {
+    const context = {
+      name: 'user-profile',
+      PascalCaseComponentName: 'UserProfile',
+      'kebab-case-component-name': 'user-profile',
+      props: ['label', 'onClick'],
+    };
+
+    it('should use the built-in template language by default', async () => {
+      expect(
+        await renderWithEngine('default', '{{ name | pascal | suffix:"Props" }}', context),
+      ).toBe('UserProfileProps');
+    });
+
+    describe('handlebars', () => {
+      it('should render blocks and tokens', async () => {
+        const template = '{{PascalCaseComponentName}}: {{#each props}}{{this}} {{/each}}';
+
+        expect(await renderWithEngine('handlebars', template, context)).toBe(
+          'UserProfile: label onClick ',
+        );
+      });
+
+      it('should provide Plop-style case helpers and the built-in filters as helpers', async () => {
+        const template =
+          '{{pascalCase name}} {{dashCase name}} {{constant name}} {{suffix name "Props"}}';
+
+        expect(await renderWithEngine('handlebars', template, context)).toBe(
+          'UserProfile user-profile USER_PROFILE user-profileProps',
+        );
+      });
+
+      it('should load partials through resolvePartial', async () => {
+        const resolvePartial = jest.fn(async (name: string) =>
+          name === 'header.hbs' ? '// {{variants.title}}{{> footer.hbs}}' : ' by {{author}}',
+        );
+
+        const result = await renderWithEngine(
+          'handlebars',
+          '{{> header.hbs}}',
+          { ...context, author: 'Ada' },
+          { resolvePartial },
+        );
+
+        expect(result).toBe('// User Profile by Ada');
+        expect(resolvePartial).toHaveBeenCalledTimes(2);
+      });
+    });
+
+    describe('mustache', () => {
+      it('should render sections, case variants and partials', async () => {
+        const template = '{{variants.camel}}{{#props}} {{.}}{{/props}}{{> footer}}';
+
+        const result = await renderWithEngine('mustache', template, context, {
+          resolvePartial: async () => '!',
+        });
+
+        expect(result).toBe('userProfile label onClick!');
+      });
+    });
+
+    describe('ejs', () => {
+      it('should render scriptlets with the context as locals', async () => {
+        const template =
+          "<% props.forEach((prop) => { %><%- prop %>;<% }) %> <%= locals['kebab-case-component-name'] %>";
+
+        expect(await renderWithEngine('ejs', template, context)).toBe(
+          'label;onClick; user-profile',
+        );
+      });
+
+      it('should not render in untrusted workspaces', async () => {
+        Object.assign(vscode.workspace, { isTrusted: false });
+
+        const error = await renderWithEngine('ejs', '<%= name %>', context).catch((e) => e);
+
+        Object.assign(vscode.workspace, { isTrusted: true });
+        expect(error).toEqual(new Error('EJS templates only render in trusted workspaces'));
+      });
+    });
+  });
+});
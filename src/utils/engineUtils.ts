@@ -0,0 +1,130 @@
+import * as vscode from 'vscode';
+import * as Handlebars from 'handlebars';
+import * as Mustache from 'mustache';
+import * as ejs from 'ejs';
+import { getAllCaseVariants } from './caseUtils';
+import {
+  applyFilter,
+  FILTER_NAMES,
+  renderTemplate,
+  RenderOptions,
+  TemplateContext,
+} from './templateUtils';
+
+export type TemplateEngine = 'default' | 'handlebars' | 'ejs' | 'mustache';
+
+export const TEMPLATE_ENGINES: TemplateEngine[] = ['default', 'handlebars', 'ejs', 'mustache'];
+
+export interface EngineRenderOptions extends RenderOptions {
+  // Path of the template being rendered, used by EJS to resolve include() calls
+  filename?: string;
+  // Root directory for absolute EJS includes
+  templatesPath?: string;
+}
+
+// Helper names used by Plop, so existing Handlebars templates keep working
+const PLOP_HELPER_ALIASES: Record<string, string> = {
+  pascalCase: 'pascal',
+  properCase: 'pascal',
+  camelCase: 'camel',
+  kebabCase: 'kebab',
+  dashCase: 'kebab',
+  kabobCase: 'kebab',
+  snakeCase: 'snake',
+  constantCase: 'constant',
+  titleCase: 'title',
+  dotCase: 'dot',
+  lowerCase: 'lower',
+  upperCase: 'upper',
+};
+
+// Matches {{> name}}, {{~> name}} and {{#> name}} in Handlebars and Mustache templates
+const PARTIAL_PATTERN = /\{\{~?#?>\s*([^\s}~]+)/g;
+const MAX_PARTIAL_DEPTH = 10;
+
+// Handlebars and Mustache need partials up front, so load every referenced partial recursively
+async function loadPartials(
+  template: string,
+  resolvePartial: RenderOptions['resolvePartial'],
+  partials: Record<string, string> = {},
+  depth = 0,
+): Promise<Record<string, string>> {
+  if (!resolvePartial) {
+    return partials;
+  }
+  if (depth > MAX_PARTIAL_DEPTH) {
+    throw new Error(`Partials nested more than ${MAX_PARTIAL_DEPTH} levels deep`);
+  }
+
+  for (const [, name] of template.matchAll(PARTIAL_PATTERN)) {
+    if (Object.hasOwn(partials, name)) {
+      continue;
+    }
+    partials[name] = await resolvePartial(name);
+    await loadPartials(partials[name], resolvePartial, partials, depth + 1);
+  }
+
+  return partials;
+}
+
+function createHandlebars(partials: Record<string, string>, options: RenderOptions) {
+  const handlebars = Handlebars.create();
+
+  const helperNames: Record<string, string> = {
+    ...Object.fromEntries(FILTER_NAMES.map((name) => [name, name])),
+    ...PLOP_HELPER_ALIASES,
+  };
+  for (const [helperName, filterName] of Object.entries(helperNames)) {
+    // The last argument Handlebars passes to a helper is its options object
+    handlebars.registerHelper(helperName, (value: unknown, ...args: unknown[]) =>
+      applyFilter(filterName, value, args.slice(0, -1).map(String), options),
+    );
+  }
+
+  handlebars.registerPartial(partials);
+  return handlebars;
+}
+
+/**
+ * Render a template with the given engine. Besides the values in the context, the
+ * third-party engines get a `variants` object with the component name in every case
+ * style (e.g. variants.pascal), since not every token name is a valid identifier there.
+ */
+export async function renderWithEngine(
+  engine: TemplateEngine,
+  template: string,
+  context: TemplateContext,
+  options: EngineRenderOptions = {},
+): Promise<string> {
+  if (engine === 'default') {
+    return renderTemplate(template, context, options);
+  }
+
+  const data: TemplateContext = {
+    variants: getAllCaseVariants(String(context.name)),
+    ...context,
+  };
+
+  switch (engine) {
+    case 'handlebars': {
+      const partials = await loadPartials(template, options.resolvePartial);
+      return createHandlebars(partials, options).compile(template)(data);
+    }
+    case 'mustache': {
+      const partials = await loadPartials(template, options.resolvePartial);
+      return Mustache.render(template, data, partials);
+    }
+    case 'ejs':
+      // EJS templates run arbitrary JavaScript
+      if (!vscode.workspace.isTrusted) {
+        throw new Error('EJS templates only render in trusted workspaces');
+      }
+      return ejs.render(template, data, {
+        async: true,
+        filename: options.filename,
+        root: options.templatesPath,
+      });
+    default:
+      throw new Error(`Unknown template engine "${engine}"`);
+  }
+}
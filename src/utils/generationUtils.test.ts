@@ -0,0 +1,586 @@
+import * as vscode from 'vscode';
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import { generateFromTemplates } from './generationUtils';
+import { TemplateItem } from './configurationUtils';
+import { loadModule } from './moduleUtils';
+import { createJournal } from './journalUtils';
+import { mockFileSystem } from '../__mocks__/fs/memoryFileSystem';
+
+jest.mock('fs/promises');
+jest.mock('./moduleUtils');
+
+const templatesPath = path.join('/project', 'component-templates');
+const targetDirectory = path.join('/project', 'src', 'components');
+
+describe('generationUtils', () => {
+  describe('generateFromTemplates', () => {
+    it('should render single-file templates into the component directory', async () => {
+      mockFileSystem({
+        [path.join(templatesPath, 'component.tsx.template')]:
+          'export const {{PascalCaseComponentName}} = () => null;',
+      });
+
+      const templates: TemplateItem[] = [
+        { source: 'component.tsx.template', target: '{{PascalCaseComponentName}}.tsx', label: 'C' },
+      ];
+
+      const result = await generateFromTemplates(
+        'my-button',
+        targetDirectory,
+        ['component.tsx.template'],
+        templates,
+        templatesPath,
+      );
+
+      expect(result).toEqual({
+        success: true,
+        addedFiles: ['MyButton.tsx'],
+        existingFiles: [],
+        overwrittenFiles: [],
+        mergedFiles: [],
+      });
+      expect(fs.writeFile).toHaveBeenCalledWith(
+        path.join(targetDirectory, 'my-button', 'MyButton.tsx'),
+        'export const MyButton = () => null;',
+      );
+    });
+
+    it('should name the component directory in the configured directory case', async () => {
+      mockFileSystem({ [path.join(templatesPath, 'index.ts.template')]: 'export {};' });
+
+      await generateFromTemplates(
+        'my-button',
+        targetDirectory,
+        ['index.ts.template'],
+        [{ source: 'index.ts.template', target: 'index.ts', label: 'Index' }],
+        templatesPath,
+        { directoryCase: 'pascal' },
+      );
+
+      expect(fs.writeFile).toHaveBeenCalledWith(
+        path.join(targetDirectory, 'MyButton', 'index.ts'),
+        'export {};',
+      );
+    });
+
+    it('should write flat groups directly into the target directory', async () => {
+      mockFileSystem({ [path.join(templatesPath, 'hook.ts.template')]: 'export {};' });
+
+      const result = await generateFromTemplates(
+        'toggle',
+        targetDirectory,
+        ['hook.ts.template'],
+        [{ source: 'hook.ts.template', target: 'use{{PascalCaseComponentName}}.ts', label: 'H' }],
+        templatesPath,
+        { flat: true, directoryCase: 'pascal' },
+      );
+
+      expect(result.addedFiles).toEqual(['useToggle.ts']);
+      expect(fs.writeFile).toHaveBeenCalledWith(
+        path.join(targetDirectory, 'useToggle.ts'),
+        'export {};',
+      );
+    });
+
+    it('should copy directory templates recursively, expanding tokens in names and content', async () => {
+      const folder = path.join(templatesPath, 'extras');
+      mockFileSystem({
+        [path.join(folder, '__tests__', '{{PascalCaseComponentName}}.test.tsx.template')]:
+          "import {{PascalCaseComponentName}} from '../{{PascalCaseComponentName}}';",
+        [path.join(folder, 'stories', '{{PascalCaseComponentName}}.stories.tsx')]:
+          "export default { title: '{{Title Case Component Name}}' };",
+        [path.join(folder, 'hooks', 'use{{PascalCaseComponentName}}.ts')]: '// hook',
+      });
+
+      const templates: TemplateItem[] = [{ source: 'extras', target: '.', label: 'Extras' }];
+
+      const result = await generateFromTemplates(
+        'MyButton',
+        targetDirectory,
+        ['extras'],
+        templates,
+        templatesPath,
+      );
+
+      const componentDir = path.join(targetDirectory, 'MyButton');
+
+      expect(result.addedFiles).toEqual([
+        path.join('__tests__', 'MyButton.test.tsx'),
+        path.join('stories', 'MyButton.stories.tsx'),
+        path.join('hooks', 'useMyButton.ts'),
+      ]);
+      expect(fs.mkdir).toHaveBeenCalledWith(path.join(componentDir, '__tests__'), {
+        recursive: true,
+      });
+      expect(fs.writeFile).toHaveBeenCalledWith(
+        path.join(componentDir, '__tests__', 'MyButton.test.tsx'),
+        "import MyButton from '../MyButton';",
+      );
+      expect(fs.writeFile).toHaveBeenCalledWith(
+        path.join(componentDir, 'stories', 'MyButton.stories.tsx'),
+        "export default { title: 'My Button' };",
+      );
+    });
+
+    it('should place directory templates under a rendered target folder', async () => {
+      mockFileSystem({
+        [path.join(templatesPath, 'docs', 'README.md')]: '# {{PascalCaseComponentName}}',
+      });
+
+      const result = await generateFromTemplates(
+        'MyButton',
+        targetDirectory,
+        ['docs'],
+        [{ source: 'docs', target: '{{kebab-case-component-name}}-docs', label: 'Docs' }],
+        templatesPath,
+      );
+
+      expect(result.addedFiles).toEqual([path.join('my-button-docs', 'README.md')]);
+    });
+
+    it('should copy binary files in directory templates as they are', async () => {
+      const folder = path.join(templatesPath, 'assets');
+      mockFileSystem({
+        [path.join(folder, '{{PascalCaseComponentName}}.png')]: '\x89PNG {{name}}',
+        [path.join(folder, 'icon.bin')]: '\0{{name}}',
+        [path.join(folder, 'index.ts')]: "export * from './{{name}}';",
+      });
+      (fs.copyFile as jest.Mock).mockResolvedValue(undefined);
+
+      const result = await generateFromTemplates(
+        'MyButton',
+        targetDirectory,
+        ['assets'],
+        [{ source: 'assets', target: '.', label: 'Assets' }],
+        templatesPath,
+      );
+
+      const componentDir = path.join(targetDirectory, 'MyButton');
+      expect(result.addedFiles).toEqual(['MyButton.png', 'icon.bin', 'index.ts']);
+      // Names are still rendered, but neither file is read as text or rendered
+      expect(fs.readFile).not.toHaveBeenCalledWith(
+        path.join(folder, '{{PascalCaseComponentName}}.png'),
+        'utf-8',
+      );
+      expect(fs.copyFile).toHaveBeenCalledWith(
+        path.join(folder, '{{PascalCaseComponentName}}.png'),
+        path.join(componentDir, 'MyButton.png'),
+        fs.constants.COPYFILE_EXCL,
+      );
+      expect(fs.copyFile).toHaveBeenCalledWith(
+        path.join(folder, 'icon.bin'),
+        path.join(componentDir, 'icon.bin'),
+        fs.constants.COPYFILE_EXCL,
+      );
+      expect(fs.writeFile).toHaveBeenCalledTimes(1);
+    });
+
+    it('should render content with the template engine, falling back to the configured default', async () => {
+      mockFileSystem({
+        [path.join(templatesPath, 'component.hbs')]: 'export const {{pascalCase name}} = null;',
+        [path.join(templatesPath, 'index.ejs')]: "export * from './<%= variants.pascal %>';",
+      });
+
+      const result = await generateFromTemplates(
+        'my-button',
+        targetDirectory,
+        ['component.hbs', 'index.ejs'],
+        [
+          { source: 'component.hbs', target: '{{PascalCaseComponentName}}.tsx', label: 'C' },
+          { source: 'index.ejs', target: 'index.ts', label: 'Index', engine: 'ejs' },
+        ],
+        templatesPath,
+        { engine: 'handlebars' },
+      );
+
+      expect(result.addedFiles).toEqual(['MyButton.tsx', 'index.ts']);
+      expect(fs.writeFile).toHaveBeenCalledWith(
+        path.join(targetDirectory, 'my-button', 'MyButton.tsx'),
+        'export const MyButton = null;',
+      );
+      expect(fs.writeFile).toHaveBeenCalledWith(
+        path.join(targetDirectory, 'my-button', 'index.ts'),
+        "export * from './MyButton';",
+      );
+    });
+
+    it('should read inherited templates from the templates directory of their config', async () => {
+      const rootTemplatesPath = path.join('/', 'component-templates');
+      mockFileSystem({
+        [path.join(rootTemplatesPath, 'index.ts.template')]: "export * from './{{name}}';",
+      });
+
+      const result = await generateFromTemplates(
+        'MyButton',
+        targetDirectory,
+        ['index.ts.template'],
+        [
+          {
+            source: 'index.ts.template',
+            target: 'index.ts',
+            label: 'Index',
+            templatesPath: rootTemplatesPath,
+          },
+        ],
+        templatesPath,
+      );
+
+      expect(result.addedFiles).toEqual(['index.ts']);
+      expect(fs.readFile).toHaveBeenCalledWith(
+        path.join(rootTemplatesPath, 'index.ts.template'),
+        'utf-8',
+      );
+    });
+
+    it('should render inline template content, joining arrays of lines', async () => {
+      mockFileSystem({});
+
+      const result = await generateFromTemplates(
+        'my-button',
+        targetDirectory,
+        ['Index'],
+        [
+          {
+            content: ["export * from './{{PascalCaseComponentName}}';", ''],
+            target: 'index.ts',
+            label: 'Index',
+          },
+        ],
+        templatesPath,
+      );
+
+      expect(result.addedFiles).toEqual(['index.ts']);
+      expect(fs.stat).not.toHaveBeenCalled();
+      expect(fs.writeFile).toHaveBeenCalledWith(
+        path.join(targetDirectory, 'my-button', 'index.ts'),
+        "export * from './MyButton';\n",
+      );
+    });
+
+    it('should run template modules and write the content they return', async () => {
+      const sourcePath = path.join(templatesPath, 'enum.ts.js');
+      mockFileSystem({ [sourcePath]: '' });
+
+      const render = jest.fn(
+        ({ variants, variables }) =>
+          `export enum ${variants.pascal}Kind {\n${variables.kinds
+            .map((kind: string) => `  ${kind},`)
+            .join('\n')}\n}`,
+      );
+      (loadModule as jest.Mock).mockResolvedValueOnce(render);
+
+      const result = await generateFromTemplates(
+        'my-button',
+        targetDirectory,
+        ['enum.ts.js'],
+        [{ source: 'enum.ts.js', target: '{{PascalCaseComponentName}}Kind.ts', label: 'Enum' }],
+        templatesPath,
+        { variables: { kinds: ['Primary', 'Secondary'] } },
+      );
+
+      expect(loadModule).toHaveBeenCalledWith(sourcePath);
+      expect(render).toHaveBeenCalledWith({
+        componentName: 'my-button',
+        variants: expect.objectContaining({ pascal: 'MyButton', kebab: 'my-button' }),
+        variables: { kinds: ['Primary', 'Secondary'] },
+      });
+      expect(result.addedFiles).toEqual(['MyButtonKind.ts']);
+      expect(fs.writeFile).toHaveBeenCalledWith(
+        path.join(targetDirectory, 'my-button', 'MyButtonKind.ts'),
+        'export enum MyButtonKind {\n  Primary,\n  Secondary,\n}',
+      );
+    });
+
+    it('should write every file returned by a template module', async () => {
+      mockFileSystem({ [path.join(templatesPath, 'barrel.mjs')]: '' });
+
+      (loadModule as jest.Mock).mockResolvedValueOnce(async () => [
+        { target: 'index.ts', content: "export * from './{{ignored}}';" },
+        { target: '{{PascalCaseComponentName}}.types.ts', content: 'export {};' },
+      ]);
+
+      const result = await generateFromTemplates(
+        'MyButton',
+        targetDirectory,
+        ['barrel.mjs'],
+        [{ source: 'barrel.mjs', target: '.', label: 'Barrel' }],
+        templatesPath,
+      );
+
+      expect(result.addedFiles).toEqual(['index.ts', 'MyButton.types.ts']);
+      // Module output is written as-is
+      expect(fs.writeFile).toHaveBeenCalledWith(
+        path.join(targetDirectory, 'MyButton', 'index.ts'),
+        "export * from './{{ignored}}';",
+      );
+    });
+
+    it('should fail when a template module does not export a function', async () => {
+      mockFileSystem({ [path.join(templatesPath, 'broken.js')]: '' });
+      (loadModule as jest.Mock).mockResolvedValueOnce({ notAFunction: true });
+
+      await expect(
+        generateFromTemplates(
+          'MyButton',
+          targetDirectory,
+          ['broken.js'],
+          [{ source: 'broken.js', target: 'Broken.ts', label: 'Broken' }],
+          templatesPath,
+        ),
+      ).rejects.toThrow(
+        `Could not generate Broken.ts: Template module ${path.join(templatesPath, 'broken.js')} must export a function`,
+      );
+    });
+
+    it('should not run template modules in untrusted workspaces', async () => {
+      const sourcePath = path.join(templatesPath, 'enum.ts.js');
+      mockFileSystem({ [sourcePath]: '' });
+      Object.assign(vscode.workspace, { isTrusted: false });
+
+      const error = await generateFromTemplates(
+        'MyButton',
+        targetDirectory,
+        ['enum.ts.js'],
+        [{ source: 'enum.ts.js', target: 'Enum.ts', label: 'Enum' }],
+        templatesPath,
+      ).catch((e) => e);
+
+      Object.assign(vscode.workspace, { isTrusted: true });
+      expect(error).toEqual(
+        new Error(
+          `Could not generate Enum.ts: Template module ${sourcePath} only runs in trusted workspaces`,
+        ),
+      );
+      expect(loadModule).not.toHaveBeenCalled();
+    });
+
+    it('should roll back the files already written when one fails', async () => {
+      mockFileSystem({});
+      (fs.writeFile as jest.Mock)
+        .mockResolvedValueOnce(undefined)
+        .mockRejectedValueOnce(new Error('EACCES: permission denied'));
+      (fs.readFile as jest.Mock).mockResolvedValueOnce('export const MyButton = null;');
+      const journal = createJournal('create MyButton');
+      const templates: TemplateItem[] = [
+        { label: 'Component', target: '{{name}}.tsx', content: 'export const {{name}} = null;' },
+        { label: 'Index', target: 'index.ts', content: "export * from './{{name}}';" },
+      ];
+
+      await expect(
+        generateFromTemplates(
+          'MyButton',
+          targetDirectory,
+          ['Component', 'Index'],
+          templates,
+          templatesPath,
+          { journal },
+        ),
+      ).rejects.toThrow('Could not generate index.ts: EACCES: permission denied');
+      expect(fs.unlink).toHaveBeenCalledWith(
+        path.join(targetDirectory, 'MyButton', 'MyButton.tsx'),
+      );
+      expect(journal.hasChanges()).toBe(false);
+    });
+
+    it('should confirm every planned file before writing', async () => {
+      mockFileSystem({
+        [path.join(templatesPath, 'component.tsx.template')]: 'export const {{name}} = null;',
+        [path.join(templatesPath, 'index.ts.template')]: 'export {};',
+        [path.join(targetDirectory, 'MyButton', 'index.ts')]: 'existing',
+      });
+      const confirm = jest.fn().mockResolvedValue(true);
+
+      const result = await generateFromTemplates(
+        'MyButton',
+        targetDirectory,
+        ['component.tsx.template', 'index.ts.template'],
+        [
+          { source: 'component.tsx.template', target: '{{name}}.tsx', label: 'C' },
+          { source: 'index.ts.template', target: 'index.ts', label: 'Index' },
+        ],
+        templatesPath,
+        { confirm },
+      );
+
+      expect(confirm).toHaveBeenCalledWith([
+        {
+          path: 'MyButton.tsx',
+          targetPath: path.join(targetDirectory, 'MyButton', 'MyButton.tsx'),
+          template: 'component.tsx.template',
+          content: 'export const MyButton = null;',
+          exists: false,
+        },
+        {
+          path: 'index.ts',
+          targetPath: path.join(targetDirectory, 'MyButton', 'index.ts'),
+          template: 'index.ts.template',
+          content: 'export {};',
+          exists: true,
+        },
+      ]);
+      expect(result.addedFiles).toEqual(['MyButton.tsx']);
+      expect(result.existingFiles).toEqual(['index.ts']);
+    });
+
+    it('should remove the $CURSOR marker and pass the written files to onGenerated', async () => {
+      mockFileSystem({
+        [path.join(templatesPath, 'component.tsx.template')]:
+          'export const {{name}} = () => {\n  $CURSOR\n};',
+        [path.join(templatesPath, 'index.ts.template')]: 'export {};',
+        [path.join(targetDirectory, 'MyButton', 'index.ts')]: 'existing',
+      });
+      const onGenerated = jest.fn();
+
+      await generateFromTemplates(
+        'MyButton',
+        targetDirectory,
+        ['component.tsx.template', 'index.ts.template'],
+        [
+          { source: 'component.tsx.template', target: '{{name}}.tsx', label: 'C' },
+          { source: 'index.ts.template', target: 'index.ts', label: 'Index' },
+        ],
+        templatesPath,
+        { onGenerated },
+      );
+
+      const componentPath = path.join(targetDirectory, 'MyButton', 'MyButton.tsx');
+      expect(fs.writeFile).toHaveBeenCalledWith(
+        componentPath,
+        'export const MyButton = () => {\n  \n};',
+      );
+      // Skipped files are left out
+      expect(onGenerated).toHaveBeenCalledWith([
+        expect.objectContaining({
+          targetPath: componentPath,
+          template: 'component.tsx.template',
+          cursorOffset: 34,
+        }),
+      ]);
+    });
+
+    it('should write nothing when the planned files are not confirmed', async () => {
+      mockFileSystem({ [path.join(templatesPath, 'index.ts.template')]: 'export {};' });
+
+      const result = await generateFromTemplates(
+        'MyButton',
+        targetDirectory,
+        ['index.ts.template'],
+        [{ source: 'index.ts.template', target: 'index.ts', label: 'Index' }],
+        templatesPath,
+        { confirm: jest.fn().mockResolvedValue(false) },
+      );
+
+      expect(result).toEqual({
+        success: false,
+        addedFiles: [],
+        existingFiles: [],
+        overwrittenFiles: [],
+        mergedFiles: [],
+        cancelled: true,
+      });
+      expect(fs.mkdir).not.toHaveBeenCalled();
+      expect(fs.writeFile).not.toHaveBeenCalled();
+    });
+
+    it('should skip files that already exist', async () => {
+      mockFileSystem({
+        [path.join(templatesPath, 'index.ts.template')]: 'export {};',
+        [path.join(targetDirectory, 'MyButton', 'index.ts')]: 'existing',
+      });
+
+      const result = await generateFromTemplates(
+        'MyButton',
+        targetDirectory,
+        ['index.ts.template'],
+        [{ source: 'index.ts.template', target: 'index.ts', label: 'Index' }],
+        templatesPath,
+      );
+
+      expect(result).toEqual({
+        success: false,
+        addedFiles: [],
+        existingFiles: ['index.ts'],
+        overwrittenFiles: [],
+        mergedFiles: [],
+      });
+      expect(fs.writeFile).not.toHaveBeenCalled();
+    });
+
+    describe('existing files', () => {
+      const componentDir = path.join(targetDirectory, 'MyButton');
+      const templates: TemplateItem[] = [
+        { source: 'test.tsx.template', target: '{{name}}.test.tsx', label: 'Test' },
+      ];
+
+      beforeEach(() => {
+        mockFileSystem({
+          [path.join(templatesPath, 'test.tsx.template')]: 'generated',
+          [path.join(componentDir, 'MyButton.test.tsx')]: 'existing',
+          [path.join(componentDir, 'MyButton-1.test.tsx')]: 'existing',
+        });
+      });
+
+      it('should overwrite existing files when the conflict resolves to overwrite', async () => {
+        const resolveConflict = jest.fn().mockResolvedValue('overwrite');
+
+        const result = await generateFromTemplates(
+          'MyButton',
+          targetDirectory,
+          ['test.tsx.template'],
+          templates,
+          templatesPath,
+          { resolveConflict },
+        );
+
+        expect(resolveConflict).toHaveBeenCalledWith(
+          expect.objectContaining({ path: 'MyButton.test.tsx', exists: true }),
+        );
+        expect(result).toEqual(
+          expect.objectContaining({
+            success: true,
+            addedFiles: [],
+            overwrittenFiles: ['MyButton.test.tsx'],
+          }),
+        );
+        expect(fs.writeFile).toHaveBeenCalledWith(
+          path.join(componentDir, 'MyButton.test.tsx'),
+          'generated',
+        );
+      });
+
+      it('should write renamed files with the next free numbered suffix', async () => {
+        const result = await generateFromTemplates(
+          'MyButton',
+          targetDirectory,
+          ['test.tsx.template'],
+          templates,
+          templatesPath,
+          { resolveConflict: jest.fn().mockResolvedValue('rename') },
+        );
+
+        expect(result.addedFiles).toEqual(['MyButton-2.test.tsx']);
+        expect(fs.writeFile).toHaveBeenCalledWith(
+          path.join(componentDir, 'MyButton-2.test.tsx'),
+          'generated',
+        );
+      });
+
+      it('should leave files being merged for the user to edit', async () => {
+        const result = await generateFromTemplates(
+          'MyButton',
+          targetDirectory,
+          ['test.tsx.template'],
+          templates,
+          templatesPath,
+          { resolveConflict: jest.fn().mockResolvedValue('merge') },
+        );
+
+        expect(result).toEqual(
+          expect.objectContaining({ success: false, mergedFiles: ['MyButton.test.tsx'] }),
+        );
+        expect(fs.writeFile).not.toHaveBeenCalled();
+      });
+    });
+  });
+});
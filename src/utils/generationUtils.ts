@@ -1,12 +1,48 @@
+import * as vscode from 'vscode';
 import * as path from 'path';
 import * as fs from 'fs/promises';
-import { TemplateItem } from './configurationUtils';
-import { transform, CaseType, detectCase } from './caseUtils';
+import { getTemplateKey, TemplateItem } from './configurationUtils';
+import { transform, CaseType, detectCase, getAllCaseVariants, toDirectoryName } from './caseUtils';
+import { renderTemplate, TemplateContext } from './templateUtils';
+import { loadModule } from './moduleUtils';
+import { renderWithEngine, TemplateEngine } from './engineUtils';
+import { createJournal, Journal } from './journalUtils';
+import { readTextFile } from './renameUtils';
 
-interface GenerationResult {
+export interface GenerationResult {
   success: boolean;
-  existingFiles: string[];
   addedFiles: string[];
+  // Existing files that were left as they were
+  existingFiles: string[];
+  overwrittenFiles: string[];
+  // Existing files opened beside the generated content to merge by hand
+  mergedFiles: string[];
+  // Set when nothing was written because the confirm option declined
+  cancelled?: boolean;
+}
+
+// What happens to a generated file that already exists. "rename" writes it with a numbered suffix
+export type ConflictResolution = 'skip' | 'overwrite' | 'rename' | 'merge';
+
+export interface GenerationOptions {
+  // Built-in values and answers to the configured template variables
+  variables?: TemplateContext;
+  irregularPlurals?: Record<string, string>;
+  // Engine for templates that don't set their own
+  engine?: TemplateEngine;
+  // Case of the component directory name. The name is used as typed when not set
+  directoryCase?: CaseType;
+  // Write files directly into the target directory instead of a component directory
+  flat?: boolean;
+  // Called with every file before anything is written. Nothing is written when it resolves to false
+  confirm?: (files: PlannedFile[]) => Promise<boolean>;
+  // Decides what happens to each file that already exists. Existing files are skipped when not set
+  resolveConflict?: (file: PlannedFile) => Promise<ConflictResolution>;
+  // Records every directory and file written, so the generation can be undone. When a file
+  // can't be rendered or written, what was already written is rolled back and an error thrown
+  journal?: Journal;
+  // Called with the files written, once generation has succeeded
+  onGenerated?: (files: PlannedFile[]) => Promise<void>;
 }
 
 interface CaseTransformPattern {
@@ -14,68 +50,435 @@ interface CaseTransformPattern {
   targetCase: CaseType;
 }
 
-// Common case transform patterns
+// Fixed tokens, kept as aliases for filter expressions such as {{ name | pascal }}
 const TOKEN_TRANSFORMS: CaseTransformPattern[] = [
-  { token: '{{PascalCaseComponentName}}', targetCase: 'pascal' },
-  { token: '{{snake_case_component_name}}', targetCase: 'snake' },
-  { token: '{{kebab-case-component-name}}', targetCase: 'kebab' },
-  { token: '{{camelCaseComponentName}}', targetCase: 'camel' },
+  { token: 'PascalCaseComponentName', targetCase: 'pascal' },
+  { token: 'snake_case_component_name', targetCase: 'snake' },
+  { token: 'kebab-case-component-name', targetCase: 'kebab' },
+  { token: 'camelCaseComponentName', targetCase: 'camel' },
+  { token: 'CONSTANT_CASE_COMPONENT_NAME', targetCase: 'constant' },
+  { token: 'Title Case Component Name', targetCase: 'title' },
+  { token: 'dot.case.component.name', targetCase: 'dot' },
+  { token: 'flatcasecomponentname', targetCase: 'flat' },
+  { token: 'Train-Case-Component-Name', targetCase: 'train' },
 ];
 
-function processTokens(input: string, componentName: string): string {
-  let result = input;
+function buildTemplateContext(componentName: string, variables: TemplateContext = {}) {
+  const context: TemplateContext = { ...variables, name: componentName };
 
-  // Process each token type
   for (const { token, targetCase } of TOKEN_TRANSFORMS) {
-    if (result.includes(token)) {
-      const transformed = transform(componentName, targetCase);
-      if (transformed) {
-        result = result.replaceAll(token, transformed);
-      }
+    const transformed = transform(componentName, targetCase);
+    if (transformed) {
+      context[token] = transformed;
     }
   }
 
-  return result;
+  return context;
+}
+
+// Partials are resolved relative to the templates directory, e.g. {{> partials/header.template}}
+function readPartial(templatesPath: string) {
+  return (name: string) => fs.readFile(path.join(templatesPath, name), 'utf-8');
+}
+
+// File and folder names always use the built-in syntax, whatever engine renders the content
+function processTokens(
+  input: string,
+  context: TemplateContext,
+  templatesPath: string,
+  options: GenerationOptions,
+) {
+  return renderTemplate(input, context, {
+    irregularPlurals: options.irregularPlurals,
+    resolvePartial: readPartial(templatesPath),
+  });
+}
+
+function renderContent(
+  content: string,
+  // Undefined for inline templates
+  sourcePath: string | undefined,
+  engine: TemplateEngine,
+  context: TemplateContext,
+  templatesPath: string,
+  options: GenerationOptions,
+) {
+  return renderWithEngine(engine, content, context, {
+    irregularPlurals: options.irregularPlurals,
+    resolvePartial: readPartial(templatesPath),
+    filename: sourcePath,
+    templatesPath,
+  });
+}
+
+interface FileResult {
+  status: 'added' | 'skipped' | 'overwritten' | 'merged' | 'failed';
+  // Relative to the component directory, including any suffix added to avoid a conflict
+  path: string;
+  // Where the file was written. Not set when nothing was written
+  targetPath?: string;
+  // Why the file failed
+  error?: string;
+}
+
+interface RenderedFile {
+  // Relative to the component directory
+  path: string;
+  // Not set for binary files
+  content?: string;
+  // Binary files are copied from here as they are
+  copyFrom?: string;
+}
+
+// A file worked out by generateFromTemplates before it writes anything
+export interface PlannedFile {
+  // Relative to the component directory
+  path: string;
+  targetPath: string;
+  // Key of the template the file comes from
+  template: string;
+  // Not set when the template failed to render or for a binary file
+  content?: string;
+  // Set for a binary file from a directory template, which is copied as it is
+  copyFrom?: string;
+  // Why the template failed to render
+  error?: string;
+  // Where the $CURSOR marker was in the rendered content, before it was removed
+  cursorOffset?: number;
+  exists: boolean;
+}
+
+// Marks where the cursor goes when a generated file is opened
+const CURSOR_MARKER = '$CURSOR';
+
+// Argument passed to the function exported by a .js/.cjs/.mjs template module
+export interface TemplateModuleInput {
+  componentName: string;
+  variants: Record<CaseType, string | null>;
+  variables: TemplateContext;
+}
+
+// A module returns the content of its target file, or several files relative to its target folder
+type TemplateModuleOutput = string | { target: string; content: string }[];
+
+const TEMPLATE_EXTENSION = '.template';
+const MODULE_EXTENSIONS = ['.js', '.cjs', '.mjs'];
+
+// Files inside directory templates may carry a .template suffix to keep them away from other tooling
+function stripTemplateExtension(fileName: string): string {
+  return fileName.endsWith(TEMPLATE_EXTENSION) ?
+      fileName.slice(0, -TEMPLATE_EXTENSION.length)
+    : fileName;
+}
+
+async function renderTemplateDirectory(
+  sourceDirectory: string,
+  targetDirectory: string,
+  engine: TemplateEngine,
+  context: TemplateContext,
+  templatesPath: string,
+  options: GenerationOptions,
+): Promise<RenderedFile[]> {
+  const renderedFiles: RenderedFile[] = [];
+  const entries = await fs.readdir(sourceDirectory);
+
+  for (const entry of entries) {
+    const sourcePath = path.join(sourceDirectory, entry);
+    const stats = await fs.stat(sourcePath);
+
+    if (stats.isDirectory()) {
+      const targetName = await processTokens(entry, context, templatesPath, options);
+      renderedFiles.push(
+        ...(await renderTemplateDirectory(
+          sourcePath,
+          path.join(targetDirectory, targetName),
+          engine,
+          context,
+          templatesPath,
+          options,
+        )),
+      );
+    } else {
+      const targetName = await processTokens(
+        stripTemplateExtension(entry),
+        context,
+        templatesPath,
+        options,
+      );
+      const filePath = path.join(targetDirectory, targetName);
+      const content = await readTextFile(sourcePath);
+      renderedFiles.push(
+        content === undefined ?
+          { path: filePath, copyFrom: sourcePath }
+        : {
+            path: filePath,
+            content: await renderContent(
+              content,
+              sourcePath,
+              engine,
+              context,
+              templatesPath,
+              options,
+            ),
+          },
+      );
+    }
+  }
+
+  return renderedFiles;
+}
+
+async function renderTemplateModule(
+  sourcePath: string,
+  processedTarget: string,
+  componentName: string,
+  context: TemplateContext,
+  templatesPath: string,
+  options: GenerationOptions,
+): Promise<RenderedFile[]> {
+  if (!vscode.workspace.isTrusted) {
+    throw new Error(`Template module ${sourcePath} only runs in trusted workspaces`);
+  }
+  const render = await loadModule(sourcePath);
+  if (typeof render !== 'function') {
+    throw new Error(`Template module ${sourcePath} must export a function`);
+  }
+
+  const input: TemplateModuleInput = {
+    componentName,
+    variants: getAllCaseVariants(componentName),
+    variables: options.variables ?? {},
+  };
+  const output: TemplateModuleOutput = await render(input);
+
+  if (typeof output === 'string') {
+    return [{ path: processedTarget, content: output }];
+  }
+
+  if (
+    !Array.isArray(output) ||
+    output.some((file) => typeof file?.target !== 'string' || typeof file?.content !== 'string')
+  ) {
+    throw new Error(
+      `Template module ${sourcePath} must return a string or an array of { target, content } objects`,
+    );
+  }
+
+  return Promise.all(
+    output.map(async (file) => ({
+      path: path.join(
+        processedTarget,
+        await processTokens(file.target, context, templatesPath, options),
+      ),
+      content: file.content,
+    })),
+  );
+}
+
+// A template is inline content, a single file, a folder whose whole tree is copied into
+// the target, or a JS module that computes the content itself
+async function renderTemplateItem(
+  template: TemplateItem,
+  processedTarget: string,
+  componentName: string,
+  context: TemplateContext,
+  templatesPath: string,
+  options: GenerationOptions,
+): Promise<RenderedFile[]> {
+  const engine = template.engine ?? options.engine ?? 'default';
+
+  if (template.source === undefined) {
+    const content =
+      Array.isArray(template.content) ? template.content.join('\n') : (template.content ?? '');
+    return [
+      {
+        path: processedTarget,
+        content: await renderContent(content, undefined, engine, context, templatesPath, options),
+      },
+    ];
+  }
+
+  const sourcePath = path.join(templatesPath, template.source);
+  const stats = await fs.stat(sourcePath);
+
+  if (stats.isDirectory()) {
+    return renderTemplateDirectory(
+      sourcePath,
+      processedTarget,
+      engine,
+      context,
+      templatesPath,
+      options,
+    );
+  }
+
+  if (MODULE_EXTENSIONS.includes(path.extname(sourcePath))) {
+    return renderTemplateModule(
+      sourcePath,
+      processedTarget,
+      componentName,
+      context,
+      templatesPath,
+      options,
+    );
+  }
+
+  const templateContent = await fs.readFile(sourcePath, 'utf-8');
+  return [
+    {
+      path: processedTarget,
+      content: await renderContent(
+        templateContent,
+        sourcePath,
+        engine,
+        context,
+        templatesPath,
+        options,
+      ),
+    },
+  ];
 }
 
-export async function generateSingleFile(
+async function pathExists(filePath: string): Promise<boolean> {
+  try {
+    await fs.access(filePath);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+// A free path for a file that already exists, numbered after the name: Button.test.tsx
+// becomes Button-1.test.tsx, then Button-2.test.tsx
+async function getSuffixedPath(filePath: string): Promise<string> {
+  const fileName = path.basename(filePath);
+  const extensionStart = fileName.indexOf('.', 1);
+  const [name, extensions] =
+    extensionStart === -1 ?
+      [fileName, '']
+    : [fileName.slice(0, extensionStart), fileName.slice(extensionStart)];
+
+  for (let suffix = 1; ; suffix++) {
+    const candidate = path.join(path.dirname(filePath), `${name}-${suffix}${extensions}`);
+    if (!(await pathExists(candidate))) {
+      return candidate;
+    }
+  }
+}
+
+async function writePlannedFile(
+  file: PlannedFile,
+  options: GenerationOptions & { journal: Journal },
+): Promise<FileResult> {
+  if (file.error !== undefined) {
+    return { status: 'failed', path: file.path, error: file.error };
+  }
+
+  let status: FileResult['status'] = 'added';
+  let targetPath = file.targetPath;
+
+  // Checked again, as an earlier template in the same run may have written the file
+  if (file.exists || (await pathExists(file.targetPath))) {
+    // A binary file can't be merged or restored once overwritten, so an existing one is kept
+    const resolution =
+      file.copyFrom !== undefined ? 'skip' : ((await options.resolveConflict?.(file)) ?? 'skip');
+    if (resolution === 'skip' || resolution === 'merge') {
+      return { status: resolution === 'skip' ? 'skipped' : 'merged', path: file.path };
+    }
+    if (resolution === 'overwrite') {
+      status = 'overwritten';
+    } else {
+      targetPath = await getSuffixedPath(file.targetPath);
+    }
+  }
+
+  const relativePath = path.join(path.dirname(file.path), path.basename(targetPath));
+  try {
+    await options.journal.mkdir(path.dirname(targetPath));
+    if (file.copyFrom !== undefined) {
+      await options.journal.copyFile(file.copyFrom, targetPath);
+    } else {
+      await options.journal.writeFile(targetPath, file.content!);
+    }
+    return { status, path: relativePath, targetPath };
+  } catch (error) {
+    return {
+      status: 'failed',
+      path: relativePath,
+      error: error instanceof Error ? error.message : String(error),
+    };
+  }
+}
+
+// Render a template into the files it would write, without writing anything
+export async function planTemplateItem(
   componentName: string,
   targetDirectory: string,
   template: TemplateItem,
   templatesPath: string,
-): Promise<{ success: boolean; path: string; exists: boolean }> {
+  options: GenerationOptions = {},
+): Promise<PlannedFile[]> {
   // First detect the input case - if invalid, this will return null
   const sourceCase = detectCase(componentName);
   if (!sourceCase) {
     throw new Error(`Invalid component name format: ${componentName}`);
   }
 
-  // Process the target filename with case transformations
-  const processedTarget = processTokens(template.target, componentName);
-  const componentDir = path.join(targetDirectory, componentName);
-  const targetPath = path.join(componentDir, processedTarget);
+  const context = buildTemplateContext(componentName, options.variables);
+  const templateKey = getTemplateKey(template);
 
-  try {
-    await fs.access(targetPath);
-    return { success: false, path: processedTarget, exists: true };
-  } catch {
-    // File doesn't exist, proceed with generation
-  }
+  // Process the target filename with case transformations
+  const processedTarget = await processTokens(template.target, context, templatesPath, options);
+  const componentDir =
+    options.flat ? targetDirectory : (
+      path.join(targetDirectory, toDirectoryName(componentName, options.directoryCase))
+    );
 
+  let renderedFiles: RenderedFile[];
   try {
-    const templateContent = await fs.readFile(path.join(templatesPath, template.source), 'utf-8');
-    const processedContent = processTokens(templateContent, componentName);
-
-    await fs.mkdir(componentDir, { recursive: true });
-    await fs.writeFile(targetPath, processedContent);
-    return { success: true, path: processedTarget, exists: false };
+    renderedFiles = await renderTemplateItem(
+      template,
+      processedTarget,
+      componentName,
+      context,
+      templatesPath,
+      options,
+    );
   } catch (error) {
-    return { success: false, path: processedTarget, exists: false };
+    const targetPath = path.join(componentDir, processedTarget);
+    return [
+      {
+        path: processedTarget,
+        targetPath,
+        template: templateKey,
+        error: error instanceof Error ? error.message : String(error),
+        exists: false,
+      },
+    ];
   }
+
+  return Promise.all(
+    renderedFiles.map(async ({ path: filePath, content, copyFrom }) => {
+      const targetPath = path.join(componentDir, filePath);
+      const exists = await pathExists(targetPath);
+      if (content === undefined) {
+        return { path: filePath, targetPath, template: templateKey, copyFrom, exists };
+      }
+      const cursorOffset = content.indexOf(CURSOR_MARKER);
+      return {
+        path: filePath,
+        targetPath,
+        template: templateKey,
+        content: content.split(CURSOR_MARKER).join(''),
+        cursorOffset: cursorOffset === -1 ? undefined : cursorOffset,
+        exists,
+      };
+    }),
+  );
 }
 
 function findTemplateItem(templateSource: string, templates: TemplateItem[]): TemplateItem {
-  const template = templates.find((t) => t.source === templateSource);
+  const template = templates.find((t) => getTemplateKey(t) === templateSource);
   if (!template) {
     throw new Error(`Template not found: ${templateSource}`);
   }
@@ -88,22 +491,68 @@ export async function generateFromTemplates(
   templateSources: string[],
   templateItems: TemplateItem[],
   templatesPath: string,
+  options: GenerationOptions = {},
 ): Promise<GenerationResult> {
   const templates = templateSources.map((source) => findTemplateItem(source, templateItems));
 
-  const results = await Promise.all(
-    templates.map((template) =>
-      generateSingleFile(componentName, targetDirectory, template, templatesPath),
-    ),
-  );
+  const plannedFiles = (
+    await Promise.all(
+      templates.map((template) =>
+        planTemplateItem(
+          componentName,
+          targetDirectory,
+          template,
+          // Templates inherited from an extended config live in that config's templates directory
+          template.templatesPath ?? templatesPath,
+          options,
+        ),
+      ),
+    )
+  ).flat();
 
-  const existingFiles = results.filter((r) => r.exists).map((r) => r.path);
-  const addedFiles = results.filter((r) => r.success).map((r) => r.path);
-  const anySuccess = results.some((r) => r.success);
+  if (options.confirm && !(await options.confirm(plannedFiles))) {
+    return {
+      success: false,
+      addedFiles: [],
+      existingFiles: [],
+      overwrittenFiles: [],
+      mergedFiles: [],
+      cancelled: true,
+    };
+  }
 
-  return {
-    success: anySuccess,
-    existingFiles,
+  const journal = options.journal ?? createJournal('generate');
+  const checkpoint = journal.checkpoint();
+  const results: FileResult[] = [];
+  for (const file of plannedFiles) {
+    const result = await writePlannedFile(file, { ...options, journal });
+    // Never leave a component half-generated
+    if (result.status === 'failed') {
+      await journal.rollback(checkpoint);
+      throw new Error(`Could not generate ${result.path}: ${result.error}`);
+    }
+    results.push(result);
+  }
+
+  const pathsWithStatus = (status: FileResult['status']) =>
+    results.filter((result) => result.status === status).map((result) => result.path);
+  const addedFiles = pathsWithStatus('added');
+  const overwrittenFiles = pathsWithStatus('overwritten');
+
+  const result = {
+    success: addedFiles.length + overwrittenFiles.length > 0,
     addedFiles,
+    existingFiles: pathsWithStatus('skipped'),
+    overwrittenFiles,
+    mergedFiles: pathsWithStatus('merged'),
   };
+
+  if (result.success && options.onGenerated) {
+    const writtenFiles = results.flatMap(({ targetPath }, index) =>
+      targetPath ? [{ ...plannedFiles[index], targetPath }] : [],
+    );
+    await options.onGenerated(writtenFiles);
+  }
+
+  return result;
 }
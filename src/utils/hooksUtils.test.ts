@@ -0,0 +1,142 @@
+import * as vscode from 'vscode';
+import * as path from 'path';
+import { exec } from 'child_process';
+import { runGenerationHooks } from './hooksUtils';
+import { PlannedFile } from './generationUtils';
+
+jest.mock('child_process');
+
+const configDir = path.join('/project');
+const componentDir = path.join(configDir, 'src', 'components', 'MyButton');
+
+const files: PlannedFile[] = [
+  {
+    path: 'MyButton.tsx',
+    targetPath: path.join(componentDir, 'MyButton.tsx'),
+    template: 'component.tsx.template',
+    content: 'export const MyButton = () => {\n  \n};',
+    cursorOffset: 34,
+    exists: false,
+  },
+  {
+    path: 'index.ts',
+    targetPath: path.join(componentDir, 'index.ts'),
+    template: 'index.ts.template',
+    content: "export * from './MyButton';",
+    exists: false,
+  },
+];
+
+describe('hooksUtils', () => {
+  beforeEach(() => {
+    (exec as unknown as jest.Mock).mockImplementation((_command, _options, callback) =>
+      callback(null, '', ''),
+    );
+    (vscode.commands.executeCommand as jest.Mock).mockResolvedValue({});
+    (vscode.workspace.getConfiguration as jest.Mock).mockReturnValue({
+      get: (_key: string, defaultValue: unknown) => defaultValue,
+    });
+  });
+
+  it('should do nothing without hooks', async () => {
+    await runGenerationHooks(undefined, files, { cwd: configDir });
+
+    expect(vscode.window.showTextDocument).not.toHaveBeenCalled();
+    expect(vscode.commands.executeCommand).not.toHaveBeenCalled();
+    expect(exec).not.toHaveBeenCalled();
+  });
+
+  it('should open the files of the listed templates at the cursor marker', async () => {
+    const editor = { selection: undefined, revealRange: jest.fn() };
+    (vscode.window.showTextDocument as jest.Mock).mockResolvedValueOnce(editor);
+
+    await runGenerationHooks({ open: ['component.tsx.template'] }, files, { cwd: configDir });
+
+    expect(vscode.window.showTextDocument).toHaveBeenCalledTimes(1);
+    expect(vscode.workspace.openTextDocument).toHaveBeenCalledWith({
+      fsPath: files[0].targetPath,
+    });
+    const document = (vscode.workspace.openTextDocument as jest.Mock).mock.results[0].value;
+    expect(document.positionAt).toHaveBeenCalledWith(34);
+    expect(editor.selection).toBeDefined();
+    expect(editor.revealRange).toHaveBeenCalled();
+  });
+
+  it('should organize imports and format every file, saving the edits', async () => {
+    const organizeEdit = new vscode.WorkspaceEdit();
+    const formatEdits = [{ range: {}, newText: '  ' }];
+    (vscode.commands.executeCommand as jest.Mock).mockImplementation(async (command: string) =>
+      command === 'vscode.executeCodeActionProvider' ? [{ edit: organizeEdit }] : formatEdits,
+    );
+
+    await runGenerationHooks({ organizeImports: true, format: true }, files, {
+      cwd: configDir,
+    });
+
+    expect(vscode.commands.executeCommand).toHaveBeenCalledWith(
+      'vscode.executeCodeActionProvider',
+      { fsPath: files[0].targetPath },
+      expect.anything(),
+      'source.organizeImports',
+    );
+    expect(vscode.commands.executeCommand).toHaveBeenCalledWith(
+      'vscode.executeFormatDocumentProvider',
+      { fsPath: files[1].targetPath },
+      { tabSize: 2, insertSpaces: true },
+    );
+    expect(vscode.workspace.applyEdit).toHaveBeenCalledWith(organizeEdit);
+    // One organize imports and one format edit for each file
+    expect(vscode.workspace.applyEdit).toHaveBeenCalledTimes(4);
+    expect(vscode.window.showWarningMessage).not.toHaveBeenCalled();
+  });
+
+  it('should run shell commands with the generated paths', async () => {
+    await runGenerationHooks({ commands: ['eslint --fix', 'git add'] }, files, {
+      cwd: configDir,
+    });
+
+    const paths = `"${path.join('src', 'components', 'MyButton', 'MyButton.tsx')}" "${path.join('src', 'components', 'MyButton', 'index.ts')}"`;
+    const options = { cwd: configDir, timeout: 60_000 };
+    expect(exec).toHaveBeenCalledWith(`eslint --fix ${paths}`, options, expect.any(Function));
+    expect(exec).toHaveBeenCalledWith(`git add ${paths}`, options, expect.any(Function));
+  });
+
+  it('should report failing commands without stopping the others', async () => {
+    (exec as unknown as jest.Mock).mockImplementationOnce((_command, _options, callback) =>
+      callback(new Error('Command failed'), '', 'eslint: not found\n'),
+    );
+
+    await runGenerationHooks({ commands: ['eslint --fix', 'git add'] }, files, {
+      cwd: configDir,
+    });
+
+    expect(exec).toHaveBeenCalledTimes(2);
+    expect(vscode.window.showWarningMessage).toHaveBeenCalledWith(
+      'Generation hooks: "eslint --fix" failed: eslint: not found',
+    );
+  });
+
+  it('should report commands that time out', async () => {
+    (exec as unknown as jest.Mock).mockImplementationOnce((_command, _options, callback) =>
+      callback(Object.assign(new Error('Command failed'), { killed: true }), '', ''),
+    );
+
+    await runGenerationHooks({ commands: ['npm test --watch'] }, files, { cwd: configDir });
+
+    expect(vscode.window.showWarningMessage).toHaveBeenCalledWith(
+      'Generation hooks: "npm test --watch" failed: timed out after 60 seconds',
+    );
+  });
+
+  it('should not run shell commands in untrusted workspaces', async () => {
+    Object.assign(vscode.workspace, { isTrusted: false });
+
+    await runGenerationHooks({ commands: ['eslint --fix'] }, files, { cwd: configDir });
+
+    Object.assign(vscode.workspace, { isTrusted: true });
+    expect(exec).not.toHaveBeenCalled();
+    expect(vscode.window.showWarningMessage).toHaveBeenCalledWith(
+      'Generation hooks: Shell commands in hooks only run in trusted workspaces',
+    );
+  });
+});
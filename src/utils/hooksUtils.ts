@@ -0,0 +1,136 @@
+import * as vscode from 'vscode';
+import * as path from 'path';
+import { exec } from 'child_process';
+import { GenerationHooks } from './configurationUtils';
+import { PlannedFile } from './generationUtils';
+import { createJournal, Journal } from './journalUtils';
+
+export interface HookOptions {
+  // Folder the shell commands run in, usually the one containing the config
+  cwd: string;
+  // Records the format and organize imports edits, so they are undone with the generation
+  journal?: Journal;
+}
+
+// Commands still running after this long are stopped, so a command waiting for input
+// can't hold up the others
+const COMMAND_TIMEOUT = 60_000;
+
+function runShellCommand(command: string, cwd: string): Promise<void> {
+  return new Promise((resolve, reject) => {
+    exec(command, { cwd, timeout: COMMAND_TIMEOUT }, (error, _stdout, stderr) => {
+      if (error?.killed) {
+        reject(new Error(`timed out after ${COMMAND_TIMEOUT / 1000} seconds`));
+      } else if (error) {
+        reject(new Error(stderr.trim() || error.message));
+      } else {
+        resolve();
+      }
+    });
+  });
+}
+
+async function openFile(file: PlannedFile) {
+  const document = await vscode.workspace.openTextDocument(vscode.Uri.file(file.targetPath));
+  const editor = await vscode.window.showTextDocument(document, { preview: false });
+  if (editor && file.cursorOffset !== undefined) {
+    const position = document.positionAt(file.cursorOffset);
+    editor.selection = new vscode.Selection(position, position);
+    editor.revealRange(new vscode.Range(position, position));
+  }
+}
+
+async function organizeImports(uri: vscode.Uri, journal: Journal) {
+  const document = await vscode.workspace.openTextDocument(uri);
+  const fullRange = new vscode.Range(
+    document.positionAt(0),
+    document.positionAt(document.getText().length),
+  );
+  const actions = await vscode.commands.executeCommand<vscode.CodeAction[]>(
+    'vscode.executeCodeActionProvider',
+    uri,
+    fullRange,
+    vscode.CodeActionKind.SourceOrganizeImports.value,
+  );
+  for (const action of actions ?? []) {
+    if (action.edit) {
+      await journal.applyEdit(action.edit, true);
+    }
+  }
+}
+
+async function formatFile(uri: vscode.Uri, journal: Journal) {
+  const editorConfig = vscode.workspace.getConfiguration('editor', uri);
+  const edits = await vscode.commands.executeCommand<vscode.TextEdit[]>(
+    'vscode.executeFormatDocumentProvider',
+    uri,
+    {
+      tabSize: editorConfig.get<number>('tabSize', 2),
+      insertSpaces: editorConfig.get<boolean>('insertSpaces', true),
+    },
+  );
+  if (edits?.length) {
+    const edit = new vscode.WorkspaceEdit();
+    edit.set(uri, edits);
+    await journal.applyEdit(edit, true);
+  }
+}
+
+/**
+ * Run the configured hooks on freshly generated files: open them, organize imports, format
+ * and run shell commands, in that order. A hook that fails is reported without stopping
+ * the others, as the files are already written.
+ */
+export async function runGenerationHooks(
+  hooks: GenerationHooks | undefined,
+  files: PlannedFile[],
+  { cwd, journal = createJournal('hooks') }: HookOptions,
+) {
+  if (!hooks || files.length === 0) {
+    return;
+  }
+
+  const problems: string[] = [];
+  const attempt = async (description: string, step: () => Promise<void>) => {
+    try {
+      await step();
+    } catch (error) {
+      problems.push(`${description}: ${error instanceof Error ? error.message : String(error)}`);
+    }
+  };
+
+  // Binary files copied from a directory template are only passed to the shell commands
+  const textFiles = files.filter(({ copyFrom }) => copyFrom === undefined);
+
+  // Opened first, so the cursor moves along with the edits made by the later hooks
+  for (const file of textFiles.filter(({ template }) => hooks.open?.includes(template))) {
+    await attempt(`Could not open ${file.path}`, () => openFile(file));
+  }
+
+  for (const file of textFiles) {
+    const uri = vscode.Uri.file(file.targetPath);
+    if (hooks.organizeImports) {
+      await attempt(`Could not organize imports in ${file.path}`, () =>
+        organizeImports(uri, journal),
+      );
+    }
+    if (hooks.format) {
+      await attempt(`Could not format ${file.path}`, () => formatFile(uri, journal));
+    }
+  }
+
+  if (hooks.commands?.length) {
+    if (!vscode.workspace.isTrusted) {
+      problems.push('Shell commands in hooks only run in trusted workspaces');
+    } else {
+      const paths = files.map((file) => `"${path.relative(cwd, file.targetPath)}"`).join(' ');
+      for (const command of hooks.commands) {
+        await attempt(`"${command}" failed`, () => runShellCommand(`${command} ${paths}`, cwd));
+      }
+    }
+  }
+
+  if (problems.length > 0) {
+    vscode.window.showWarningMessage(`Generation hooks: ${problems.join('; ')}`);
+  }
+}
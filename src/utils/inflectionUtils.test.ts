@@ -0,0 +1,56 @@
+import { pluralizeWord, singularizeWord } from './inflectionUtils';
+
+describe('inflectionUtils', () => {
+  const pairs = [
+    ['user', 'users'],
+    ['box', 'boxes'],
+    ['address', 'addresses'],
+    ['category', 'categories'],
+    ['key', 'keys'],
+    ['shelf', 'shelves'],
+    ['knife', 'knives'],
+    ['status', 'statuses'],
+    ['analysis', 'analyses'],
+    ['matrix', 'matrices'],
+    ['hero', 'heroes'],
+    ['person', 'people'],
+    ['child', 'children'],
+    ['series', 'series'],
+  ];
+
+  describe('pluralizeWord', () => {
+    pairs.forEach(([singular, plural]) => {
+      it(`should pluralize ${singular} to ${plural}`, () => {
+        expect(pluralizeWord(singular)).toBe(plural);
+      });
+    });
+
+    it('should leave plural words unchanged', () => {
+      expect(pluralizeWord('users')).toBe('users');
+      expect(pluralizeWord('people')).toBe('people');
+    });
+
+    it('should use configured irregular plurals', () => {
+      expect(pluralizeWord('cactus', { cactus: 'cacti' })).toBe('cacti');
+      expect(pluralizeWord('person', { person: 'persons' })).toBe('persons');
+    });
+  });
+
+  describe('singularizeWord', () => {
+    pairs.forEach(([singular, plural]) => {
+      it(`should singularize ${plural} to ${singular}`, () => {
+        expect(singularizeWord(plural)).toBe(singular);
+      });
+    });
+
+    it('should leave singular words unchanged', () => {
+      expect(singularizeWord('user')).toBe('user');
+      expect(singularizeWord('class')).toBe('class');
+      expect(singularizeWord('person')).toBe('person');
+    });
+
+    it('should use configured irregular plurals', () => {
+      expect(singularizeWord('cacti', { Cactus: 'Cacti' })).toBe('cactus');
+    });
+  });
+});
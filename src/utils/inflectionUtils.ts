@@ -0,0 +1,115 @@
+// English inflection rules for single lowercase words
+
+const DEFAULT_IRREGULAR_PLURALS: Record<string, string> = {
+  person: 'people',
+  man: 'men',
+  woman: 'women',
+  child: 'children',
+  mouse: 'mice',
+  goose: 'geese',
+  foot: 'feet',
+  tooth: 'teeth',
+  criterion: 'criteria',
+};
+
+const UNCOUNTABLES = new Set([
+  'data',
+  'deer',
+  'equipment',
+  'feedback',
+  'fish',
+  'information',
+  'metadata',
+  'money',
+  'news',
+  'series',
+  'sheep',
+  'species',
+]);
+
+// Checked in order, first match wins
+const PLURAL_RULES: [RegExp, string][] = [
+  [/(quiz)$/, '$1zes'],
+  [/^(ox)$/, '$1en'],
+  [/(matr|vert|ind)(?:ix|ex)$/, '$1ices'],
+  [/(alias|status|campus|bus)$/, '$1es'],
+  [/(octop|vir)us$/, '$1i'],
+  [/(x|ch|ss|sh)$/, '$1es'],
+  [/([^aeiouy]|qu)y$/, '$1ies'],
+  [/(hive)$/, '$1s'],
+  [/(?:([^f])fe|([lr])f)$/, '$1$2ves'],
+  [/(analy|ba|diagno|parenthe|progno|synop|the)sis$/, '$1ses'],
+  [/(buffal|tomat|potat|her|ech)o$/, '$1oes'],
+  // Already plural
+  [/s$/, 's'],
+  [/$/, 's'],
+];
+
+const SINGULAR_RULES: [RegExp, string][] = [
+  [/(quiz)zes$/, '$1'],
+  [/^(ox)en$/, '$1'],
+  [/(matr)ices$/, '$1ix'],
+  [/(vert|ind)ices$/, '$1ex'],
+  [/(alias|status|campus|bus)(?:es)?$/, '$1'],
+  [/(octop|vir)(?:us|i)$/, '$1us'],
+  [/(analy|ba|diagno|parenthe|progno|synop|the)ses$/, '$1sis'],
+  [/(x|ch|ss|sh)es$/, '$1'],
+  [/([^aeiouy]|qu)ies$/, '$1y'],
+  [/(hive)s$/, '$1'],
+  [/([lr])ves$/, '$1f'],
+  [/([^f])ves$/, '$1fe'],
+  [/(buffal|tomat|potat|her|ech)oes$/, '$1o'],
+  // Words like "class" and "status" are already singular
+  [/(ss|us)$/, '$1'],
+  [/s$/, ''],
+];
+
+function applyRules(word: string, rules: [RegExp, string][]): string {
+  for (const [pattern, replacement] of rules) {
+    if (pattern.test(word)) {
+      return word.replace(pattern, replacement);
+    }
+  }
+  return word;
+}
+
+function getIrregularPlurals(irregulars: Record<string, string>): Record<string, string> {
+  const merged = { ...DEFAULT_IRREGULAR_PLURALS };
+  for (const [singular, plural] of Object.entries(irregulars)) {
+    merged[singular.toLowerCase()] = plural.toLowerCase();
+  }
+  return merged;
+}
+
+export function pluralizeWord(word: string, irregulars: Record<string, string> = {}): string {
+  if (UNCOUNTABLES.has(word)) {
+    return word;
+  }
+
+  const irregularPlurals = getIrregularPlurals(irregulars);
+  if (Object.hasOwn(irregularPlurals, word)) {
+    return irregularPlurals[word];
+  }
+  if (Object.values(irregularPlurals).includes(word)) {
+    return word;
+  }
+
+  return applyRules(word, PLURAL_RULES);
+}
+
+export function singularizeWord(word: string, irregulars: Record<string, string> = {}): string {
+  if (UNCOUNTABLES.has(word)) {
+    return word;
+  }
+
+  const irregularPlurals = getIrregularPlurals(irregulars);
+  const irregular = Object.entries(irregularPlurals).find(([, plural]) => plural === word);
+  if (irregular) {
+    return irregular[0];
+  }
+  if (Object.hasOwn(irregularPlurals, word)) {
+    return word;
+  }
+
+  return applyRules(word, SINGULAR_RULES);
+}
@@ -0,0 +1,138 @@
+import * as vscode from 'vscode';
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import { clearLastJournal, createJournal, getLastJournal, runJournaled } from './journalUtils';
+import { mockFileSystem } from '../__mocks__/fs/memoryFileSystem';
+
+const componentsDir = path.join('/project', 'src', 'components');
+
+describe('journalUtils', () => {
+  beforeEach(() => {
+    clearLastJournal();
+  });
+
+  describe('createJournal', () => {
+    it('should remove created files and directories on rollback', async () => {
+      const { contents, dirs } = mockFileSystem(
+        {},
+        { directories: ['/project', path.join('/project', 'src')] },
+      );
+      const journal = createJournal('create forms/Button');
+      const buttonDir = path.join(componentsDir, 'forms', 'Button');
+
+      await journal.mkdir(buttonDir);
+      await journal.writeFile(path.join(buttonDir, 'Button.tsx'), 'export const Button = 1;');
+      expect(contents.size).toBe(1);
+
+      expect(await journal.rollback()).toEqual([]);
+      expect(contents.size).toBe(0);
+      // Only the directories the journal created are removed
+      expect(fs.rmdir).toHaveBeenCalledTimes(3);
+      expect([...dirs]).toEqual(['/project', path.join('/project', 'src')]);
+      expect(journal.hasChanges()).toBe(false);
+    });
+
+    it('should only roll back the changes made since a checkpoint', async () => {
+      const { contents } = mockFileSystem({}, { directories: [componentsDir] });
+      const journal = createJournal('generate from components.yaml');
+      const buttonPath = path.join(componentsDir, 'Button.tsx');
+      const linkPath = path.join(componentsDir, 'Link.tsx');
+
+      await journal.writeFile(buttonPath, 'Button');
+      const checkpoint = journal.checkpoint();
+      await journal.writeFile(linkPath, 'Link');
+
+      await journal.rollback(checkpoint);
+      expect(Object.fromEntries(contents)).toEqual({ [buttonPath]: 'Button' });
+      expect(journal.hasChanges()).toBe(true);
+    });
+
+    it('should restore overwritten files', async () => {
+      const filePath = path.join(componentsDir, 'index.ts');
+      const { contents } = mockFileSystem(
+        { [filePath]: 'existing' },
+        { directories: [componentsDir] },
+      );
+      const journal = createJournal('create Button');
+
+      await journal.writeFile(filePath, "export * from './Button';");
+
+      await journal.rollback();
+      expect(Object.fromEntries(contents)).toEqual({ [filePath]: 'existing' });
+    });
+
+    it('should leave files that were changed since and report them', async () => {
+      const filePath = path.join(componentsDir, 'Button.tsx');
+      const { contents } = mockFileSystem({}, { directories: [componentsDir] });
+      const journal = createJournal('create Button');
+
+      await journal.writeFile(filePath, 'generated');
+      contents.set(filePath, 'edited by hand');
+
+      expect(await journal.rollback()).toEqual([
+        `${filePath} was changed since, so it was left as it is`,
+      ]);
+      expect(contents.get(filePath)).toBe('edited by hand');
+    });
+
+    it('should restore the text of edited documents', async () => {
+      const uri = vscode.Uri.file(path.join(componentsDir, 'App.tsx'));
+      const edit = new vscode.WorkspaceEdit();
+      (edit.entries as jest.Mock).mockReturnValue([[uri, []]]);
+      (vscode.workspace.openTextDocument as jest.Mock).mockResolvedValueOnce({
+        uri,
+        getText: () => "import Button from './Button';",
+      });
+      const journal = createJournal('create Button');
+
+      await journal.applyEdit(edit);
+      expect(vscode.workspace.applyEdit).toHaveBeenCalledWith(edit);
+
+      await journal.rollback();
+      const restore = (vscode.workspace.applyEdit as jest.Mock).mock.calls[1][0];
+      expect(restore.replace).toHaveBeenCalledWith(
+        uri,
+        expect.anything(),
+        "import Button from './Button';",
+      );
+    });
+
+    it('should throw when the workspace edit is not applied', async () => {
+      (vscode.workspace.applyEdit as jest.Mock).mockResolvedValueOnce(false);
+      const journal = createJournal('create Button');
+
+      await expect(journal.applyEdit(new vscode.WorkspaceEdit())).rejects.toThrow(
+        'Could not apply the edit to the workspace',
+      );
+      expect(journal.hasChanges()).toBe(false);
+    });
+  });
+
+  describe('runJournaled', () => {
+    it('should keep completed operations that changed anything for undo', async () => {
+      mockFileSystem({}, { directories: [componentsDir] });
+
+      await runJournaled('create Nothing', async () => undefined);
+      expect(getLastJournal()).toBeUndefined();
+
+      await runJournaled('create Button', (journal) =>
+        journal.writeFile(path.join(componentsDir, 'Button.tsx'), 'Button'),
+      );
+      expect(getLastJournal()?.label).toBe('create Button');
+    });
+
+    it('should roll back and rethrow when the operation fails', async () => {
+      const { contents } = mockFileSystem({}, { directories: [componentsDir] });
+
+      await expect(
+        runJournaled('create Button', async (journal) => {
+          await journal.writeFile(path.join(componentsDir, 'Button.tsx'), 'Button');
+          throw new Error('Template not found');
+        }),
+      ).rejects.toThrow('Template not found');
+
+      expect(contents.size).toBe(0);
+      expect(getLastJournal()).toBeUndefined();
+    });
+  });
+});
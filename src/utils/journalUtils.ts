@@ -0,0 +1,195 @@
+import * as vscode from 'vscode';
+import * as fs from 'fs/promises';
+import * as path from 'path';
+
+// A change made by a create, fork or generation hook, with what is needed to revert it
+type JournalEntry =
+  | { type: 'mkdir'; path: string }
+  // previousContent is unset for files that didn't exist before
+  | { type: 'write'; path: string; content: string; previousContent?: string }
+  // A file copied as it is, such as an image
+  | { type: 'copy'; path: string }
+  // Text of a document before an edit was applied to it
+  | { type: 'edit'; uri: vscode.Uri; previousText: string; save: boolean };
+
+export interface Journal {
+  // Describes the operation, e.g. "create Button"
+  label: string;
+  mkdir(directory: string): Promise<void>;
+  writeFile(filePath: string, content: string, previousContent?: string): Promise<void>;
+  copyFile(from: string, to: string): Promise<void>;
+  // With save, the edited documents are saved, and saved again when the edit is reverted
+  applyEdit(edit: vscode.WorkspaceEdit, save?: boolean): Promise<void>;
+  hasChanges(): boolean;
+  // Marks the changes recorded so far, to roll back only what comes after
+  checkpoint(): number;
+  // Revert every change recorded since the checkpoint, or every change, latest first.
+  // Resolves to the changes that couldn't be reverted
+  rollback(checkpoint?: number): Promise<string[]>;
+}
+
+// The last operation that completed, reverted by the Undo Last Operation command
+let lastJournal: Journal | undefined;
+
+async function pathExists(filePath: string): Promise<boolean> {
+  try {
+    await fs.access(filePath);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+// Directories that creating the given directory would add, outermost first
+async function getMissingDirectories(directory: string): Promise<string[]> {
+  const missing: string[] = [];
+  let current = directory;
+  while (!(await pathExists(current)) && path.dirname(current) !== current) {
+    missing.unshift(current);
+    current = path.dirname(current);
+  }
+  return missing;
+}
+
+async function revertEntry(entry: JournalEntry) {
+  switch (entry.type) {
+    case 'mkdir':
+      // Fails when anything else was added to the directory since, which keeps it
+      await fs.rmdir(entry.path);
+      return;
+    case 'write': {
+      const current = await fs.readFile(entry.path, 'utf-8');
+      if (current !== entry.content) {
+        throw new Error(`${entry.path} was changed since, so it was left as it is`);
+      }
+      if (entry.previousContent === undefined) {
+        await fs.unlink(entry.path);
+      } else {
+        await fs.writeFile(entry.path, entry.previousContent);
+      }
+      return;
+    }
+    case 'copy':
+      await fs.unlink(entry.path);
+      return;
+    case 'edit': {
+      const document = await vscode.workspace.openTextDocument(entry.uri);
+      const edit = new vscode.WorkspaceEdit();
+      edit.replace(
+        entry.uri,
+        new vscode.Range(document.positionAt(0), document.positionAt(document.getText().length)),
+        entry.previousText,
+      );
+      if (!(await vscode.workspace.applyEdit(edit))) {
+        throw new Error(`Could not restore ${entry.uri.fsPath}`);
+      }
+      if (entry.save) {
+        await document.save();
+      }
+    }
+  }
+}
+
+/**
+ * Start recording an operation. Changes made through the journal are written straight away
+ * and can be reverted together with rollback().
+ */
+export function createJournal(label: string): Journal {
+  const entries: JournalEntry[] = [];
+
+  return {
+    label,
+
+    async mkdir(directory) {
+      const missing = await getMissingDirectories(directory);
+      await fs.mkdir(directory, { recursive: true });
+      entries.push(...missing.map((created) => ({ type: 'mkdir' as const, path: created })));
+    },
+
+    async writeFile(filePath, content, previousContent) {
+      if (previousContent === undefined && (await pathExists(filePath))) {
+        previousContent = await fs.readFile(filePath, 'utf-8');
+      }
+      await fs.writeFile(filePath, content);
+      entries.push({ type: 'write', path: filePath, content, previousContent });
+    },
+
+    async copyFile(from, to) {
+      // Never replaces a file, so removing the copy is always safe
+      await fs.copyFile(from, to, fs.constants.COPYFILE_EXCL);
+      entries.push({ type: 'copy', path: to });
+    },
+
+    async applyEdit(edit, save = false) {
+      const documents = await Promise.all(
+        edit.entries().map(([uri]) => vscode.workspace.openTextDocument(uri)),
+      );
+      const snapshots = documents.map((document) => ({
+        type: 'edit' as const,
+        uri: document.uri,
+        previousText: document.getText(),
+        save,
+      }));
+      if (!(await vscode.workspace.applyEdit(edit))) {
+        throw new Error('Could not apply the edit to the workspace');
+      }
+      entries.push(...snapshots);
+      if (save) {
+        await Promise.all(documents.map((document) => document.save()));
+      }
+    },
+
+    hasChanges() {
+      return entries.length > 0;
+    },
+
+    checkpoint() {
+      return entries.length;
+    },
+
+    async rollback(checkpoint = 0) {
+      const problems: string[] = [];
+      while (entries.length > checkpoint) {
+        const entry = entries.pop()!;
+        try {
+          await revertEntry(entry);
+        } catch (error) {
+          // Directories left behind aren't worth reporting
+          if (entry.type !== 'mkdir') {
+            problems.push(error instanceof Error ? error.message : String(error));
+          }
+        }
+      }
+      return problems;
+    },
+  };
+}
+
+/**
+ * Run an operation against a new journal. Its changes are rolled back when it throws, and
+ * kept for the Undo Last Operation command when it completes having changed anything.
+ */
+export async function runJournaled<T>(
+  label: string,
+  operation: (journal: Journal) => Promise<T>,
+): Promise<T> {
+  const journal = createJournal(label);
+  try {
+    const result = await operation(journal);
+    if (journal.hasChanges()) {
+      lastJournal = journal;
+    }
+    return result;
+  } catch (error) {
+    await journal.rollback();
+    throw error;
+  }
+}
+
+export function getLastJournal(): Journal | undefined {
+  return lastJournal;
+}
+
+export function clearLastJournal() {
+  lastJournal = undefined;
+}
@@ -0,0 +1,62 @@
+import * as fs from 'fs/promises';
+import { readManifest } from './manifestUtils';
+
+describe('manifestUtils', () => {
+  describe('readManifest', () => {
+    it('should read YAML manifests', async () => {
+      (fs.readFile as jest.Mock).mockResolvedValueOnce(
+        [
+          'directory: src/features/checkout',
+          'variables:',
+          '  owningTeam: payments',
+          'components:',
+          '  - name: CartSummary',
+          '  - name: forms/PaymentForm',
+          '    group: Form',
+          '    variables:',
+          '      withStyles: false',
+        ].join('\n'),
+      );
+
+      expect(await readManifest('/project/checkout.yaml')).toEqual({
+        directory: 'src/features/checkout',
+        variables: { owningTeam: 'payments' },
+        components: [
+          { name: 'CartSummary' },
+          { name: 'forms/PaymentForm', group: 'Form', variables: { withStyles: false } },
+        ],
+      });
+    });
+
+    it('should read JSON manifests', async () => {
+      (fs.readFile as jest.Mock).mockResolvedValueOnce(
+        JSON.stringify({ components: [{ name: 'CartSummary', directory: 'src' }] }),
+      );
+
+      expect(await readManifest('/project/checkout.json')).toEqual({
+        components: [{ name: 'CartSummary', directory: 'src' }],
+      });
+    });
+
+    it('should report every problem in an invalid manifest', async () => {
+      (fs.readFile as jest.Mock).mockResolvedValueOnce(
+        JSON.stringify({
+          variables: [],
+          components: [{ directory: 'src' }, { name: 'CartSummary', group: 1 }],
+        }),
+      );
+
+      await expect(readManifest('/project/checkout.json')).rejects.toThrow(
+        'variables must be an object; components[0] must have a name; group of component "CartSummary" must be a string',
+      );
+    });
+
+    it('should require at least one component', async () => {
+      (fs.readFile as jest.Mock).mockResolvedValueOnce('components: []');
+
+      await expect(readManifest('/project/checkout.yml')).rejects.toThrow(
+        'components must be a non-empty array',
+      );
+    });
+  });
+});
@@ -0,0 +1,76 @@
+import * as path from 'path';
+import * as fs from 'fs/promises';
+import { parse as parseYaml } from 'yaml';
+import { isObject } from './configurationUtils';
+import { TemplateContext } from './templateUtils';
+
+export interface ManifestComponent {
+  // Component name, optionally with parent folders, e.g. forms/inputs/TextInput
+  name: string;
+  // Folder to create the component in, relative to the manifest
+  directory?: string;
+  // Label of an alternate template group. The default template group is used when not set
+  group?: string;
+  // Values for the configured template variables
+  variables?: TemplateContext;
+}
+
+export interface Manifest {
+  // Defaults for components that don't set their own
+  directory?: string;
+  variables?: TemplateContext;
+  components: ManifestComponent[];
+}
+
+function validateManifest(manifest: unknown): string[] {
+  if (!isObject(manifest)) {
+    return ['Manifest must be an object'];
+  }
+
+  const errors: string[] = [];
+  if (manifest.directory !== undefined && typeof manifest.directory !== 'string') {
+    errors.push('directory must be a string');
+  }
+  if (manifest.variables !== undefined && !isObject(manifest.variables)) {
+    errors.push('variables must be an object');
+  }
+  if (!Array.isArray(manifest.components) || manifest.components.length === 0) {
+    errors.push('components must be a non-empty array');
+    return errors;
+  }
+
+  manifest.components.forEach((component: unknown, index: number) => {
+    if (!isObject(component) || typeof component.name !== 'string' || !component.name) {
+      errors.push(`components[${index}] must have a name`);
+      return;
+    }
+    for (const key of ['directory', 'group']) {
+      if (component[key] !== undefined && typeof component[key] !== 'string') {
+        errors.push(`${key} of component "${component.name}" must be a string`);
+      }
+    }
+    if (component.variables !== undefined && !isObject(component.variables)) {
+      errors.push(`variables of component "${component.name}" must be an object`);
+    }
+  });
+
+  return errors;
+}
+
+/**
+ * Read a JSON or YAML manifest listing components to generate in one run.
+ * Throws if the file can't be read or doesn't describe any components.
+ */
+export async function readManifest(manifestPath: string): Promise<Manifest> {
+  const content = await fs.readFile(manifestPath, 'utf-8');
+  const manifest: unknown =
+    ['.yaml', '.yml'].includes(path.extname(manifestPath)) ?
+      parseYaml(content)
+    : JSON.parse(content);
+
+  const errors = validateManifest(manifest);
+  if (errors.length > 0) {
+    throw new Error(errors.join('; '));
+  }
+  return manifest as Manifest;
+}
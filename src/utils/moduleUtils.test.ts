@@ -0,0 +1,39 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { loadModule } from './moduleUtils';
+
+describe('moduleUtils', () => {
+  describe('loadModule', () => {
+    let tempDir: string;
+
+    beforeEach(() => {
+      tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'component-templates-'));
+    });
+
+    afterEach(() => {
+      fs.rmSync(tempDir, { recursive: true, force: true });
+    });
+
+    it('should load a CommonJS module export', async () => {
+      const modulePath = path.join(tempDir, 'template.cjs');
+      fs.writeFileSync(modulePath, 'module.exports = ({ componentName }) => componentName;');
+
+      const loaded = await loadModule(modulePath);
+
+      expect(typeof loaded).toBe('function');
+      expect((loaded as (input: { componentName: string }) => string)({ componentName: 'X' })).toBe(
+        'X',
+      );
+    });
+
+    it('should return the default export when present', async () => {
+      const modulePath = path.join(tempDir, 'template.js');
+      fs.writeFileSync(modulePath, 'exports.default = () => "from default";');
+
+      const loaded = (await loadModule(modulePath)) as () => string;
+
+      expect(loaded()).toBe('from default');
+    });
+  });
+});
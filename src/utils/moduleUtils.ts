@@ -0,0 +1,41 @@
+import { pathToFileURL } from 'url';
+
+// TypeScript compiles import() to require() for CommonJS output, which can't load ES modules
+const importModule = new Function('specifier', 'return import(specifier)') as (
+  specifier: string,
+) => Promise<unknown>;
+
+function importFresh(filePath: string): Promise<unknown> {
+  const url = pathToFileURL(filePath);
+  // Bust the ESM cache so edits to the module are picked up without reloading the window
+  url.search = `?t=${Date.now()}`;
+  return importModule(url.href);
+}
+
+/**
+ * Load a user-provided .js, .cjs or .mjs module from disk, always reading its latest version.
+ * Returns the module's default export if it has one.
+ */
+export async function loadModule(filePath: string): Promise<unknown> {
+  let loaded: unknown;
+
+  if (filePath.endsWith('.mjs')) {
+    loaded = await importFresh(filePath);
+  } else {
+    try {
+      delete require.cache[require.resolve(filePath)];
+      loaded = require(filePath);
+    } catch (error) {
+      // .js files in a "type": "module" package have to be imported
+      if ((error as { code?: string }).code !== 'ERR_REQUIRE_ESM') {
+        throw error;
+      }
+      loaded = await importFresh(filePath);
+    }
+  }
+
+  if (typeof loaded === 'object' && loaded !== null && 'default' in loaded) {
+    return (loaded as { default: unknown }).default;
+  }
+  return loaded;
+}
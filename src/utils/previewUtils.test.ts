@@ -0,0 +1,110 @@
+import * as vscode from 'vscode';
+import * as path from 'path';
+import { PlannedFile } from './generationUtils';
+import { PREVIEW_SCHEME, previewGeneratedFiles, registerPreviewProvider } from './previewUtils';
+
+const componentDir = path.join('/project', 'src', 'components', 'MyButton');
+
+const files: PlannedFile[] = [
+  {
+    path: 'MyButton.tsx',
+    targetPath: path.join(componentDir, 'MyButton.tsx'),
+    template: 'component.tsx.template',
+    content: 'export const MyButton = null;',
+    exists: false,
+  },
+  {
+    path: 'index.ts',
+    targetPath: path.join(componentDir, 'index.ts'),
+    template: 'index.ts.template',
+    content: "export * from './MyButton';",
+    exists: true,
+  },
+  {
+    path: 'Broken.ts',
+    targetPath: path.join(componentDir, 'Broken.ts'),
+    template: 'broken.ts.template',
+    error: 'Unclosed {{#if}} block',
+    exists: false,
+  },
+];
+
+// Picks the preview item with the given label each time the list is shown
+function mockSelections(...labels: (string | undefined)[]) {
+  for (const label of labels) {
+    (vscode.window.showQuickPick as jest.Mock).mockImplementationOnce(
+      async (items: vscode.QuickPickItem[]) => items.find((item) => item.label === label),
+    );
+  }
+}
+
+function getProvider(): vscode.TextDocumentContentProvider {
+  registerPreviewProvider({ subscriptions: [] } as unknown as vscode.ExtensionContext);
+  return (vscode.workspace.registerTextDocumentContentProvider as jest.Mock).mock.calls[0][1];
+}
+
+describe('previewUtils', () => {
+  describe('previewGeneratedFiles', () => {
+    it('should list every file with what will happen to it', async () => {
+      mockSelections('$(check) Apply');
+
+      expect(await previewGeneratedFiles(files)).toBe(true);
+
+      const items = (vscode.window.showQuickPick as jest.Mock).mock.calls[0][0];
+      expect(items).toEqual([
+        { label: '$(check) Apply', description: 'Create 1 file(s)' },
+        { label: '$(close) Cancel' },
+        { label: 'Files', kind: vscode.QuickPickItemKind.Separator },
+        expect.objectContaining({ label: 'MyButton.tsx', description: 'new file' }),
+        expect.objectContaining({
+          label: 'index.ts',
+          description: 'already exists, will be skipped',
+        }),
+        expect.objectContaining({
+          label: 'Broken.ts',
+          description: 'failed to render: Unclosed {{#if}} block',
+        }),
+      ]);
+    });
+
+    it('should resolve to false when cancelled or dismissed', async () => {
+      mockSelections('$(close) Cancel', undefined);
+
+      expect(await previewGeneratedFiles(files)).toBe(false);
+      expect(await previewGeneratedFiles(files)).toBe(false);
+    });
+
+    it('should open new files as preview documents with their rendered content', async () => {
+      mockSelections('MyButton.tsx', '$(check) Apply');
+      const provider = getProvider();
+
+      expect(await previewGeneratedFiles(files)).toBe(true);
+
+      const previewUri = (vscode.workspace.openTextDocument as jest.Mock).mock.calls[0][0];
+      expect(previewUri.scheme).toBe(PREVIEW_SCHEME);
+      expect(provider.provideTextDocumentContent(previewUri, {} as vscode.CancellationToken)).toBe(
+        'export const MyButton = null;',
+      );
+      expect(vscode.window.showTextDocument).toHaveBeenCalledWith(expect.anything(), {
+        preview: true,
+        preserveFocus: true,
+      });
+      // The list is shown again after each preview
+      expect(vscode.window.showQuickPick).toHaveBeenCalledTimes(2);
+    });
+
+    it('should compare existing files with the generated content', async () => {
+      mockSelections('index.ts', '$(close) Cancel');
+
+      await previewGeneratedFiles(files);
+
+      expect(vscode.commands.executeCommand).toHaveBeenCalledWith(
+        'vscode.diff',
+        vscode.Uri.file(files[1].targetPath),
+        expect.objectContaining({ scheme: PREVIEW_SCHEME }),
+        'index.ts (existing ↔ generated)',
+        { preview: true, preserveFocus: true },
+      );
+    });
+  });
+});
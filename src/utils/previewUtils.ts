@@ -0,0 +1,151 @@
+import * as vscode from 'vscode';
+import * as path from 'path';
+import { PlannedFile } from './generationUtils';
+import { ConflictPolicy } from './conflictUtils';
+
+export const PREVIEW_SCHEME = 'component-preview';
+
+interface PreviewItem extends vscode.QuickPickItem {
+  file?: PlannedFile;
+}
+
+// Rendered content served to preview documents, by URI. Each preview gets its own URIs so
+// documents left open from an earlier preview are never reused
+const previewContents = new Map<string, string>();
+let previewCount = 0;
+
+function getPreviewUri(file: PlannedFile): vscode.Uri {
+  return vscode.Uri.from({
+    scheme: PREVIEW_SCHEME,
+    path: path.posix.join('/', ...file.targetPath.split(path.sep)),
+    query: String(previewCount),
+  });
+}
+
+function getContentKey(uri: vscode.Uri): string {
+  return `${uri.path}?${uri.query}`;
+}
+
+const CONFLICT_DESCRIPTIONS: Record<ConflictPolicy, string> = {
+  skip: 'already exists, will be skipped',
+  overwrite: 'already exists, will be overwritten',
+  rename: 'already exists, will be written with a numbered suffix',
+  merge: 'already exists, will be opened to merge',
+  ask: 'already exists, you will be asked what to do',
+};
+
+function describeFile(file: PlannedFile, onConflict: ConflictPolicy): string {
+  if (file.error !== undefined) {
+    return `failed to render: ${file.error}`;
+  }
+  if (file.copyFrom !== undefined) {
+    // Existing binary files are always kept
+    return file.exists ? CONFLICT_DESCRIPTIONS.skip : 'new file, copied as it is';
+  }
+  return file.exists ? CONFLICT_DESCRIPTIONS[onConflict] : 'new file';
+}
+
+async function showPreview(file: PlannedFile) {
+  if (file.error !== undefined) {
+    vscode.window.showWarningMessage(`${file.path} could not be rendered: ${file.error}`);
+    return;
+  }
+
+  const options = { preview: true, preserveFocus: true };
+  if (file.copyFrom !== undefined) {
+    await vscode.commands.executeCommand('vscode.open', vscode.Uri.file(file.copyFrom), options);
+    return;
+  }
+
+  const previewUri = getPreviewUri(file);
+
+  // Existing files are compared with what the template would have written
+  if (file.exists) {
+    await vscode.commands.executeCommand(
+      'vscode.diff',
+      vscode.Uri.file(file.targetPath),
+      previewUri,
+      `${file.path} (existing ↔ generated)`,
+      options,
+    );
+    return;
+  }
+
+  const document = await vscode.workspace.openTextDocument(previewUri);
+  await vscode.window.showTextDocument(document, options);
+}
+
+/**
+ * List the files a generation would write, opening any of them as a read-only preview,
+ * until the user applies or cancels. Resolves to true when the files should be written.
+ */
+export async function previewGeneratedFiles(
+  files: PlannedFile[],
+  onConflict: ConflictPolicy = 'skip',
+): Promise<boolean> {
+  previewCount++;
+  previewContents.clear();
+  for (const file of files) {
+    if (file.content !== undefined) {
+      previewContents.set(getContentKey(getPreviewUri(file)), file.content);
+    }
+  }
+
+  const newFiles = files.filter((file) => file.error === undefined && !file.exists).length;
+  const apply: PreviewItem = {
+    label: '$(check) Apply',
+    description: `Create ${newFiles} file(s)`,
+  };
+  const cancel: PreviewItem = { label: '$(close) Cancel' };
+  const items: PreviewItem[] = [
+    apply,
+    cancel,
+    { label: 'Files', kind: vscode.QuickPickItemKind.Separator },
+    ...files.map((file) => ({
+      label: file.path,
+      description: describeFile(file, onConflict),
+      detail: file.targetPath,
+      file,
+    })),
+  ];
+
+  for (;;) {
+    const selected = await vscode.window.showQuickPick(items, {
+      title: 'Preview Generated Files',
+      placeHolder: 'Select a file to preview it, then Apply to write the files',
+      ignoreFocusOut: true,
+    });
+
+    if (selected === apply) {
+      return true;
+    }
+    if (!selected?.file) {
+      return false;
+    }
+    await showPreview(selected.file);
+  }
+}
+
+// Open the generated content beside an existing file so changes can be copied across by hand
+export async function showMergeDiff(file: PlannedFile) {
+  previewCount++;
+  const previewUri = getPreviewUri(file);
+  previewContents.set(getContentKey(previewUri), file.content ?? '');
+
+  await vscode.commands.executeCommand(
+    'vscode.diff',
+    previewUri,
+    vscode.Uri.file(file.targetPath),
+    `${file.path} (generated ↔ existing)`,
+  );
+}
+
+export function registerPreviewProvider(context: vscode.ExtensionContext) {
+  const provider: vscode.TextDocumentContentProvider = {
+    provideTextDocumentContent: (uri) => previewContents.get(getContentKey(uri)) ?? '',
+  };
+
+  context.subscriptions.push(
+    vscode.workspace.registerTextDocumentContentProvider(PREVIEW_SCHEME, provider),
+  );
+}
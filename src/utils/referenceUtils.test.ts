@@ -0,0 +1,169 @@
+import * as vscode from 'vscode';
+import * as path from 'path';
+import {
+  DEFAULT_REFERENCE_FILES,
+  findModuleReferences,
+  findReferenceFiles,
+  retargetReference,
+} from './referenceUtils';
+
+describe('referenceUtils', () => {
+  describe('findModuleReferences', () => {
+    const specifiers = (text: string) =>
+      findModuleReferences(text).map(({ kind, specifier }) => [kind, specifier]);
+
+    it('should find import and export statements', () => {
+      const text = [
+        "import Button from './Button';",
+        "import { Button, type ButtonProps } from '../Button';",
+        "import type { ButtonProps } from './Button/types';",
+        "import * as Buttons from './Button';",
+        "import {\n  Button,\n} from './Button';",
+        "import './Button/Button.css';",
+        "export { default } from './Button';",
+        "export * from './Button';",
+        "export * as Buttons from './Button';",
+      ].join('\n');
+
+      expect(specifiers(text)).toEqual([
+        ['import', './Button'],
+        ['import', '../Button'],
+        ['import', './Button/types'],
+        ['import', './Button'],
+        ['import', './Button'],
+        ['import', './Button/Button.css'],
+        ['export', './Button'],
+        ['export', './Button'],
+        ['export', './Button'],
+      ]);
+    });
+
+    it('should find dynamic imports, require calls and module mocks', () => {
+      const text = [
+        "const Button = lazy(() => import('./Button'));",
+        'const { Button } = require("./Button");',
+        "jest.mock('./Button');",
+        "vi.mock('./Button', () => ({}));",
+        "const actual = jest.requireActual('./Button');",
+        "const other = myimport('./Button');",
+      ].join('\n');
+
+      expect(specifiers(text)).toEqual([
+        ['call', './Button'],
+        ['call', './Button'],
+        ['call', './Button'],
+        ['call', './Button'],
+        ['call', './Button'],
+      ]);
+    });
+
+    it('should find stylesheet imports', () => {
+      const text = [
+        "@use '../Button/button' as button;",
+        '@import "./Button/variables";',
+        "@forward 'Button/mixins';",
+        "@import url('./Button/reset.css');",
+      ].join('\n');
+
+      expect(specifiers(text)).toEqual([
+        ['style', '../Button/button'],
+        ['style', './Button/variables'],
+        ['style', 'Button/mixins'],
+        ['style', './Button/reset.css'],
+      ]);
+    });
+
+    it('should give the offsets of the specifier and the imported bindings', () => {
+      const text = "import { Button } from './Button';";
+      const [reference] = findModuleReferences(text);
+
+      expect(text.slice(reference.start, reference.end)).toBe('./Button');
+      expect(reference.bindings).toEqual({ text: '{ Button }', start: 7 });
+    });
+  });
+
+  describe('retargetReference', () => {
+    const oldDirectory = path.join('/src', 'components', 'Button');
+    const newDirectory = path.join('/src', 'components', 'Toggle');
+    const retarget = (fromFile: string, text: string) =>
+      retargetReference(
+        fromFile,
+        findModuleReferences(text)[0],
+        oldDirectory,
+        newDirectory,
+        (relative) => relative.replace(/Button/g, 'Toggle'),
+      );
+
+    it('should point relative references into the directory at its new path', () => {
+      const app = path.join('/src', 'App.tsx');
+      expect(retarget(app, "import Button from './components/Button';")).toBe(
+        './components/Toggle',
+      );
+      expect(retarget(app, "jest.mock('./components/Button/Button.tsx');")).toBe(
+        './components/Toggle/Toggle.tsx',
+      );
+    });
+
+    it('should resolve stylesheet paths without ./ relative to the file', () => {
+      const styles = path.join('/src', 'components', 'styles.scss');
+      expect(retarget(styles, "@use 'Button/button';")).toBe('Toggle/button');
+      expect(retarget(styles, "@use 'sass:math';")).toBeUndefined();
+    });
+
+    it('should rewrite aliased references with the same alias', () => {
+      const app = path.join('/src', 'App.tsx');
+      const aliases = [
+        { pattern: '@/*', targets: [path.join('/src', '*')] },
+        { pattern: '~ui/*', targets: [path.join('/src', 'components', '*')] },
+      ];
+      const retargetAliased = (text: string) =>
+        retargetReference(
+          app,
+          findModuleReferences(text)[0],
+          oldDirectory,
+          newDirectory,
+          (relative) => relative.replace(/Button/g, 'Toggle'),
+          aliases,
+        );
+
+      expect(retargetAliased("import Button from '@/components/Button';")).toBe(
+        '@/components/Toggle',
+      );
+      expect(retargetAliased("export * from '~ui/Button/Button.styles';")).toBe(
+        '~ui/Toggle/Toggle.styles',
+      );
+      expect(retargetAliased("import ButtonGroup from '~ui/ButtonGroup';")).toBeUndefined();
+    });
+
+    it('should resolve references from files in the directory at their new path', () => {
+      const hook = path.join(oldDirectory, 'hooks', 'useButton.ts');
+      expect(retarget(hook, "import styles from '../Button.module.css';")).toBe(
+        '../Toggle.module.css',
+      );
+      expect(retarget(hook, "import { Button } from '../Button';")).toBe('../Toggle');
+      expect(retarget(hook, "import { api } from '../../../api';")).toBeUndefined();
+    });
+
+    it('should leave references elsewhere alone', () => {
+      const app = path.join('/src', 'App.tsx');
+      expect(retarget(app, "import ButtonGroup from './components/ButtonGroup';")).toBeUndefined();
+      expect(retarget(app, "import Button from 'components/Button';")).toBeUndefined();
+    });
+  });
+
+  describe('findReferenceFiles', () => {
+    it('should search every glob once, skipping node_modules', async () => {
+      const file = vscode.Uri.file('/src/App.tsx');
+      (vscode.workspace.findFiles as jest.Mock)
+        .mockResolvedValueOnce([file])
+        .mockResolvedValueOnce([file]);
+
+      expect(await findReferenceFiles()).toEqual([file]);
+      expect(vscode.workspace.findFiles).toHaveBeenCalledTimes(DEFAULT_REFERENCE_FILES.length);
+      expect(vscode.workspace.findFiles).toHaveBeenCalledWith(
+        DEFAULT_REFERENCE_FILES[0],
+        '**/node_modules/**',
+      );
+    });
+  });
+});
@@ -0,0 +1,148 @@
+import * as vscode from 'vscode';
+import * as path from 'path';
+import { PathAlias, resolveAliases, toAliasedSpecifier } from './aliasUtils';
+
+// Files searched for references to a renamed component, unless the config sets referenceFiles
+export const DEFAULT_REFERENCE_FILES = [
+  '**/*.{ts,tsx,mts,cts,js,jsx,mjs,cjs}',
+  '**/*.{vue,svelte,astro}',
+  '**/*.{css,scss,sass,less}',
+];
+
+// A module path written in a file, such as the './Button' of import Button from './Button'
+export interface ModuleReference {
+  // import/export ... from, dynamic import(), require() and test mocks, or a stylesheet @import/@use
+  kind: 'import' | 'export' | 'call' | 'style';
+  specifier: string;
+  // Offsets of the specifier in the text, without its quotes
+  start: number;
+  end: number;
+  // What an import or export statement brings in, e.g. "{ Button, type ButtonProps }"
+  bindings?: { text: string; start: number };
+}
+
+const REFERENCE_PATTERNS: { kind: ModuleReference['kind']; pattern: RegExp }[] = [
+  // import X from, import { X } from, import type X from, import * as X from
+  {
+    kind: 'import',
+    pattern: /(?<![\w$.@])import\s+((?:type\s+)?[\w$*{},\s]+?)\s*from\s*(['"])([^'"\n]+)\2/dg,
+  },
+  // Side-effect imports such as import './Button.css'
+  { kind: 'import', pattern: /(?<![\w$.@])import\s*(['"])([^'"\n]+)\1/dg },
+  // export { default } from, export * from, export * as X from, export type { X } from
+  {
+    kind: 'export',
+    pattern: /(?<![\w$.@])export\s+((?:type\s+)?[\w$*{},\s]+?)\s*from\s*(['"])([^'"\n]+)\2/dg,
+  },
+  // import(), require(), require.resolve() and the jest and vitest module mocks
+  {
+    kind: 'call',
+    pattern:
+      /(?<![\w$.])(?:import|require(?:\.resolve)?|(?:jest|vi)\.(?:mock|doMock|unmock|requireActual|importActual))\s*\(\s*(['"`])([^'"`\n]+)\1/dg,
+  },
+  // CSS, SCSS and Less @import, @use and @forward
+  { kind: 'style', pattern: /@(?:import|use|forward)\s+(?:url\(\s*)?(['"])([^'"\n]+)\1/dg },
+];
+
+/**
+ * Find every module path referenced in a file, in the order they appear. Works on the whole
+ * text, so the script and style blocks of .vue, .svelte and .astro files are covered too.
+ */
+export function findModuleReferences(text: string): ModuleReference[] {
+  const references: ModuleReference[] = [];
+
+  for (const { kind, pattern } of REFERENCE_PATTERNS) {
+    for (const match of text.matchAll(pattern)) {
+      // The specifier is always the last group, and the bindings the first of three
+      const [start, end] = match.indices![match.length - 1];
+      const bindings = match.length === 4 ? match.indices![1] : undefined;
+      references.push({
+        kind,
+        specifier: match[match.length - 1],
+        start,
+        end,
+        bindings: bindings && { text: match[1], start: bindings[0] },
+      });
+    }
+  }
+
+  return references.sort((a, b) => a.start - b.start);
+}
+
+// Stylesheets resolve paths without ./ relative to the file too, except packages and
+// built-in modules such as ~bootstrap or sass:math
+function isRelative({ kind, specifier }: ModuleReference): boolean {
+  if (specifier.startsWith('./') || specifier.startsWith('../')) {
+    return true;
+  }
+  return kind === 'style' && !/^(?:[~@/]|[\w-]+:)/.test(specifier);
+}
+
+function toSpecifier(fromDirectory: string, target: string): string {
+  const relative = path.relative(fromDirectory, target).split(path.sep).join('/');
+  return relative.startsWith('.') ? relative : `./${relative}`;
+}
+
+/**
+ * Work out what a reference should point to once a directory has moved. renamePath gives
+ * the new path, relative to the new directory, of a path relative to the old one, and a
+ * file inside the directory is taken to move along with it. Aliased references, such as
+ * @/components/Button, keep using their alias where it still fits. Returns undefined for
+ * references to anything outside the directory.
+ */
+export function retargetReference(
+  fromFile: string,
+  reference: ModuleReference,
+  oldDirectory: string,
+  newDirectory: string,
+  renamePath: (relativePath: string) => string = (relativePath) => relativePath,
+  aliases: PathAlias[] = [],
+): string | undefined {
+  const getNewTarget = (target: string) => {
+    const relative = path.relative(oldDirectory, target);
+    return relative.startsWith('..') || path.isAbsolute(relative) ?
+        undefined
+      : path.join(newDirectory, renamePath(relative));
+  };
+  const fromDirectory = path.dirname(fromFile);
+  const newFromDirectory = path.dirname(getNewTarget(fromFile) ?? fromFile);
+
+  if (isRelative(reference)) {
+    const newTarget = getNewTarget(path.resolve(fromDirectory, reference.specifier));
+    if (newTarget === undefined) {
+      return undefined;
+    }
+    const newSpecifier = toSpecifier(newFromDirectory, newTarget);
+    // Keep the style of the original, e.g. a stylesheet path without ./
+    return (
+      reference.specifier.startsWith('.') ? newSpecifier
+      : newSpecifier.startsWith('./') ? newSpecifier.slice(2)
+      : newSpecifier
+    );
+  }
+
+  // The first place the alias points to in the directory, as whether the others exist is
+  // not checked
+  for (const { alias, target } of resolveAliases(reference.specifier, aliases)) {
+    const newTarget = getNewTarget(target);
+    if (newTarget !== undefined) {
+      return (
+        toAliasedSpecifier(newTarget, aliases, alias) ?? toSpecifier(newFromDirectory, newTarget)
+      );
+    }
+  }
+  return undefined;
+}
+
+// Find the files to search for references, skipping node_modules
+export async function findReferenceFiles(
+  globs: string[] = DEFAULT_REFERENCE_FILES,
+): Promise<vscode.Uri[]> {
+  const files = new Map<string, vscode.Uri>();
+  for (const glob of globs) {
+    for (const file of await vscode.workspace.findFiles(glob, '**/node_modules/**')) {
+      files.set(file.fsPath, file);
+    }
+  }
+  return [...files.values()];
+}
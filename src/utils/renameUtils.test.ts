@@ -0,0 +1,147 @@
+import * as vscode from 'vscode';
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import { readComponentTree, renameEntryPath, reviewNameChanges } from './renameUtils';
+
+jest.mock('fs/promises');
+
+describe('renameUtils', () => {
+  describe('readComponentTree', () => {
+    it('should list nested folders before their files and skip binary content', async () => {
+      const root = path.join('/components', 'Button');
+      (fs.readdir as jest.Mock).mockImplementation(async (dir: string) =>
+        dir === root ? ['Button.tsx', '__tests__', 'icon.png', 'data.bin'] : ['Button.test.tsx'],
+      );
+      (fs.stat as jest.Mock).mockImplementation(async (entry: string) => ({
+        isDirectory: () => entry.endsWith('__tests__'),
+      }));
+      (fs.readFile as jest.Mock).mockImplementation(async (file: string) =>
+        file.endsWith('.bin') ? '\0Button' : 'export const Button = 1;',
+      );
+
+      expect(await readComponentTree(root)).toEqual([
+        { path: 'Button.tsx', isDirectory: false, content: 'export const Button = 1;' },
+        { path: '__tests__', isDirectory: true },
+        {
+          path: path.join('__tests__', 'Button.test.tsx'),
+          isDirectory: false,
+          content: 'export const Button = 1;',
+        },
+        { path: 'icon.png', isDirectory: false },
+        { path: 'data.bin', isDirectory: false, content: undefined },
+      ]);
+      expect(fs.readFile).not.toHaveBeenCalledWith(path.join(root, 'icon.png'), 'utf-8');
+    });
+  });
+
+  describe('renameEntryPath', () => {
+    it('should rename every segment, including compound names', () => {
+      expect(renameEntryPath(path.join('__tests__', 'useButton.ts'), 'Button', 'Toggle')).toBe(
+        path.join('__tests__', 'useToggle.ts'),
+      );
+    });
+  });
+
+  describe('reviewNameChanges', () => {
+    const directories = {
+      oldDirectory: path.join('/components', 'Button'),
+      newDirectory: path.join('/components', 'Toggle'),
+    };
+    const entries = [
+      {
+        path: 'Button.tsx',
+        isDirectory: false,
+        content: 'export const Button = () => <ButtonGroup className="button" />;',
+      },
+      { path: 'icon.png', isDirectory: false },
+    ];
+
+    it('should rewrite whole words and leave compound names by default', async () => {
+      (vscode.window.showQuickPick as jest.Mock).mockResolvedValueOnce([]);
+
+      const contents = await reviewNameChanges(entries, 'Button', 'Toggle', directories);
+
+      expect(contents).toEqual(
+        new Map([
+          ['Button.tsx', 'export const Toggle = () => <ButtonGroup className="button" />;'],
+        ]),
+      );
+      // Only the ambiguous "button" is listed
+      expect((vscode.window.showQuickPick as jest.Mock).mock.calls[0][0]).toEqual([
+        expect.objectContaining({
+          label: 'button → toggle',
+          description: 'Button.tsx:1',
+          picked: false,
+        }),
+      ]);
+    });
+
+    it('should list compound names checked when enabled', async () => {
+      (vscode.window.showQuickPick as jest.Mock).mockImplementationOnce(async (items) =>
+        items.filter(({ picked }: vscode.QuickPickItem) => picked),
+      );
+
+      const contents = await reviewNameChanges(entries, 'Button', 'Toggle', {
+        ...directories,
+        rewriteCompoundNames: true,
+      });
+
+      expect(contents?.get('Button.tsx')).toBe(
+        'export const Toggle = () => <ToggleGroup className="button" />;',
+      );
+      expect(vscode.window.showQuickPick).toHaveBeenCalledWith(
+        expect.any(Array),
+        expect.objectContaining({ title: 'Review 2 occurrence(s) of Button', canPickMany: true }),
+      );
+    });
+
+    it('should not ask when there is nothing to review', async () => {
+      const contents = await reviewNameChanges(
+        [{ path: 'index.ts', isDirectory: false, content: "export * from './Button';" }],
+        'Button',
+        'Toggle',
+        directories,
+      );
+
+      expect(vscode.window.showQuickPick).not.toHaveBeenCalled();
+      expect(contents?.get('index.ts')).toBe("export * from './Toggle';");
+    });
+
+    it('should resolve to undefined when the review is cancelled', async () => {
+      (vscode.window.showQuickPick as jest.Mock).mockResolvedValueOnce(undefined);
+
+      expect(await reviewNameChanges(entries, 'Button', 'Toggle', directories)).toBeUndefined();
+    });
+
+    it('should point module paths at the renamed files whatever the review', async () => {
+      (vscode.window.showQuickPick as jest.Mock).mockResolvedValueOnce([]);
+      const content = [
+        "import { useButton } from './useButton';",
+        "import styles from './button.module.css';",
+        "import { api } from '../api/button';",
+      ].join('\n');
+
+      const contents = await reviewNameChanges(
+        [
+          { path: 'Button.tsx', isDirectory: false, content },
+          { path: 'useButton.ts', isDirectory: false, content: 'export {};' },
+          { path: 'button.module.css', isDirectory: false, content: '.root {}' },
+        ],
+        'Button',
+        'Toggle',
+        directories,
+      );
+
+      // The compound useButton and the ambiguous button are left as they were elsewhere
+      expect(contents?.get('Button.tsx')).toBe(
+        [
+          "import { useButton } from './useToggle';",
+          "import styles from './toggle.module.css';",
+          "import { api } from '../api/button';",
+        ].join('\n'),
+      );
+      expect(renameEntryPath('useButton.ts', 'Button', 'Toggle')).toBe('useToggle.ts');
+      expect(renameEntryPath('button.module.css', 'Button', 'Toggle')).toBe('toggle.module.css');
+    });
+  });
+});
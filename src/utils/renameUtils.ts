@@ -0,0 +1,247 @@
+import * as vscode from 'vscode';
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import {
+  applyNameOccurrences,
+  findNameOccurrences,
+  NameOccurrence,
+  replaceCaseVariants,
+} from './caseUtils';
+import { findModuleReferences, retargetReference } from './referenceUtils';
+
+// A file or folder in a component being renamed or forked
+export interface ComponentEntry {
+  // Relative to the component directory
+  path: string;
+  isDirectory: boolean;
+  // Not set for folders and binary files
+  content?: string;
+}
+
+export interface NameChangeOptions {
+  // Where the component is, and where it ends up
+  oldDirectory: string;
+  newDirectory: string;
+  irregularPlurals?: Record<string, string>;
+  // Also rewrite the name where it is part of a longer identifier, e.g. ButtonGroup
+  rewriteCompoundNames?: boolean;
+}
+
+interface OccurrenceItem extends vscode.QuickPickItem {
+  entryPath: string;
+  occurrence: NameOccurrence;
+}
+
+// Files that are never read as text. Other files are also treated as binary when they
+// contain a null byte, the same check git uses to spot binary files
+const BINARY_EXTENSIONS = new Set([
+  '.png',
+  '.jpg',
+  '.jpeg',
+  '.gif',
+  '.webp',
+  '.ico',
+  '.bmp',
+  '.pdf',
+  '.zip',
+  '.gz',
+  '.woff',
+  '.woff2',
+  '.ttf',
+  '.otf',
+  '.eot',
+  '.mp3',
+  '.mp4',
+  '.webm',
+  '.wav',
+]);
+
+// Read a file as text, or resolve to undefined for a binary file
+export async function readTextFile(filePath: string): Promise<string | undefined> {
+  if (BINARY_EXTENSIONS.has(path.extname(filePath).toLowerCase())) {
+    return undefined;
+  }
+  const content = await fs.readFile(filePath, 'utf-8');
+  return content.includes('\0') ? undefined : content;
+}
+
+/**
+ * Read every file and folder in a component, parents before their contents. Nested folders
+ * such as __tests__, stories and __snapshots__ are read like the top level.
+ */
+export async function readComponentTree(root: string, relativeDir = ''): Promise<ComponentEntry[]> {
+  const entries: ComponentEntry[] = [];
+
+  for (const name of await fs.readdir(path.join(root, relativeDir))) {
+    const entryPath = path.join(relativeDir, name);
+    const fullPath = path.join(root, entryPath);
+
+    const stats = await fs.stat(fullPath);
+    if (stats.isDirectory()) {
+      entries.push({ path: entryPath, isDirectory: true });
+      entries.push(...(await readComponentTree(root, entryPath)));
+      continue;
+    }
+
+    entries.push({ path: entryPath, isDirectory: false, content: await readTextFile(fullPath) });
+  }
+
+  return entries;
+}
+
+// Rename every segment of a relative path. File and folder names in a component are always
+// derived from its name, so compound names such as useButton.ts are renamed too
+export function renameEntryPath(
+  entryPath: string,
+  oldName: string,
+  newName: string,
+  irregularPlurals?: Record<string, string>,
+): string {
+  return entryPath
+    .split(path.sep)
+    .map((segment) => replaceCaseVariants(segment, oldName, newName, irregularPlurals))
+    .join(path.sep);
+}
+
+function getLine(content: string, offset: number): { number: number; text: string } {
+  const lineStart = content.lastIndexOf('\n', offset - 1) + 1;
+  const lineEnd = content.indexOf('\n', offset);
+  return {
+    number: content.slice(0, offset).split('\n').length,
+    text: content.slice(lineStart, lineEnd === -1 ? undefined : lineEnd).trim(),
+  };
+}
+
+// Module paths in a file of the component that point to its own files, changed to follow
+// the renamed files and folders
+function findReferenceChanges(
+  entry: ComponentEntry,
+  oldName: string,
+  newName: string,
+  { oldDirectory, newDirectory, irregularPlurals }: NameChangeOptions,
+): NameOccurrence[] {
+  return findModuleReferences(entry.content ?? '').flatMap((reference) => {
+    const specifier = retargetReference(
+      path.join(oldDirectory, entry.path),
+      reference,
+      oldDirectory,
+      newDirectory,
+      (relative) => renameEntryPath(relative, oldName, newName, irregularPlurals),
+    );
+    return specifier === undefined || specifier === reference.specifier ?
+        []
+      : [
+          {
+            start: reference.start,
+            end: reference.end,
+            text: reference.specifier,
+            replacement: specifier,
+            kind: 'exact' as const,
+          },
+        ];
+  });
+}
+
+/**
+ * Work out which occurrences of the name to rewrite in each file of a component. Whole-word
+ * occurrences are always rewritten. Ambiguous ones (a lowercase single word such as "button")
+ * and, when enabled, compound ones are listed for review first, with compound ones checked.
+ * Module paths to the component's own files always follow the renamed files, as file and
+ * folder names are renamed whatever the review.
+ * Resolves to the accepted occurrences by entry path, or undefined if the review was cancelled.
+ */
+export async function reviewNameOccurrences(
+  entries: ComponentEntry[],
+  oldName: string,
+  newName: string,
+  options: NameChangeOptions,
+): Promise<Map<string, NameOccurrence[]> | undefined> {
+  const { irregularPlurals, rewriteCompoundNames = false } = options;
+  const accepted = new Map<string, NameOccurrence[]>();
+  const reviewItems: OccurrenceItem[] = [];
+
+  for (const entry of entries) {
+    if (entry.content === undefined) {
+      continue;
+    }
+    const referenceChanges = findReferenceChanges(entry, oldName, newName, options);
+    const occurrences = findNameOccurrences(
+      entry.content,
+      oldName,
+      newName,
+      irregularPlurals,
+    ).filter(({ start, end }) =>
+      referenceChanges.every((change) => end <= change.start || start >= change.end),
+    );
+    accepted.set(entry.path, [
+      ...referenceChanges,
+      ...occurrences.filter(({ kind }) => kind === 'exact'),
+    ]);
+
+    for (const occurrence of occurrences) {
+      if (
+        occurrence.kind === 'exact' ||
+        (occurrence.kind === 'compound' && !rewriteCompoundNames)
+      ) {
+        continue;
+      }
+      const line = getLine(entry.content, occurrence.start);
+      reviewItems.push({
+        label: `${occurrence.text} → ${occurrence.replacement}`,
+        description: `${entry.path}:${line.number}`,
+        detail: line.text,
+        picked: occurrence.kind === 'compound',
+        entryPath: entry.path,
+        occurrence,
+      });
+    }
+  }
+
+  if (reviewItems.length > 0) {
+    const selected = await vscode.window.showQuickPick(reviewItems, {
+      title: `Review ${reviewItems.length} occurrence(s) of ${oldName}`,
+      placeHolder: 'Checked occurrences are renamed to match. Press Escape to cancel',
+      canPickMany: true,
+      matchOnDescription: true,
+      matchOnDetail: true,
+      ignoreFocusOut: true,
+    });
+    if (!selected) {
+      return undefined;
+    }
+    for (const { entryPath, occurrence } of selected) {
+      accepted.get(entryPath)?.push(occurrence);
+    }
+  }
+
+  for (const [entryPath, occurrences] of accepted) {
+    if (occurrences.length === 0) {
+      accepted.delete(entryPath);
+    } else {
+      occurrences.sort((a, b) => a.start - b.start);
+    }
+  }
+  return accepted;
+}
+
+// Like reviewNameOccurrences, but resolves to the new content of each changed file
+export async function reviewNameChanges(
+  entries: ComponentEntry[],
+  oldName: string,
+  newName: string,
+  options: NameChangeOptions,
+): Promise<Map<string, string> | undefined> {
+  const accepted = await reviewNameOccurrences(entries, oldName, newName, options);
+  if (!accepted) {
+    return undefined;
+  }
+
+  const contents = new Map<string, string>();
+  for (const entry of entries) {
+    const occurrences = accepted.get(entry.path);
+    if (entry.content !== undefined && occurrences) {
+      contents.set(entry.path, applyNameOccurrences(entry.content, occurrences));
+    }
+  }
+  return contents;
+}
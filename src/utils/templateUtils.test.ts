@@ -0,0 +1,196 @@
+import { renderTemplate } from './templateUtils';
+
+describe('templateUtils', () => {
+  describe('renderTemplate', () => {
+    const context = {
+      PascalCaseComponentName: 'MyComponent',
+      'kebab-case-component-name': 'my-component',
+      withStyles: true,
+      withProps: false,
+      props: ['label', 'onClick'],
+      owner: { team: 'design-system' },
+    };
+
+    it('should replace plain tokens', async () => {
+      const result = await renderTemplate(
+        'export { default } from "./{{PascalCaseComponentName}}"; // {{kebab-case-component-name}}',
+        context,
+      );
+      expect(result).toBe('export { default } from "./MyComponent"; // my-component');
+    });
+
+    it('should resolve nested paths', async () => {
+      expect(await renderTemplate('{{owner.team}}', context)).toBe('design-system');
+    });
+
+    it('should leave unknown tokens and non-template braces untouched', async () => {
+      const input = '<div style={{ color: "red" }}>{{unknownToken}}</div>';
+      expect(await renderTemplate(input, context)).toBe(input);
+    });
+
+    it('should render if/else blocks', async () => {
+      const input =
+        '{{#if withStyles}}styled{{else}}plain{{/if}}-{{#if withProps}}props{{else}}none{{/if}}';
+      expect(await renderTemplate(input, context)).toBe('styled-none');
+    });
+
+    it('should render unless blocks', async () => {
+      expect(await renderTemplate('{{#unless withProps}}no props{{/unless}}', context)).toBe(
+        'no props',
+      );
+    });
+
+    it('should remove lines that only contain block tags', async () => {
+      const input = [
+        "import React from 'react';",
+        '{{#if withStyles}}',
+        "import styles from './{{PascalCaseComponentName}}.module.scss';",
+        '{{/if}}',
+        '{{#if withProps}}',
+        'type Props = {};',
+        '{{/if}}',
+        '',
+        'export {};',
+      ].join('\n');
+
+      expect(await renderTemplate(input, context)).toBe(
+        [
+          "import React from 'react';",
+          "import styles from './MyComponent.module.scss';",
+          '',
+          'export {};',
+        ].join('\n'),
+      );
+    });
+
+    it('should iterate arrays with each', async () => {
+      const input = [
+        'type Props = {',
+        '{{#each props}}',
+        '  {{this}}: unknown;{{#if @last}} // last{{/if}}',
+        '{{/each}}',
+        '};',
+      ].join('\n');
+
+      expect(await renderTemplate(input, context)).toBe(
+        ['type Props = {', '  label: unknown;', '  onClick: unknown; // last', '};'].join('\n'),
+      );
+    });
+
+    it('should render the else branch of each for empty lists', async () => {
+      expect(await renderTemplate('{{#each missing}}x{{else}}empty{{/each}}', context)).toBe(
+        'empty',
+      );
+    });
+
+    it('should expose @index and outer context inside each', async () => {
+      expect(
+        await renderTemplate(
+          '{{#each props}}{{@index}}:{{PascalCaseComponentName}}.{{this}} {{/each}}',
+          context,
+        ),
+      ).toBe('0:MyComponent.label 1:MyComponent.onClick ');
+    });
+
+    it('should render partials with the current context', async () => {
+      const resolvePartial = jest.fn().mockResolvedValue('// {{PascalCaseComponentName}} header\n');
+
+      const result = await renderTemplate('{{> partials/header.template}}\nbody', context, {
+        resolvePartial,
+      });
+
+      expect(resolvePartial).toHaveBeenCalledWith('partials/header.template');
+      expect(result).toBe('// MyComponent header\nbody');
+    });
+
+    it('should strip comments', async () => {
+      expect(await renderTemplate('a{{! ignored }}b', context)).toBe('ab');
+    });
+
+    it('should output escaped tags as written', async () => {
+      const input =
+        '<p>\\{{ PascalCaseComponentName }} {{PascalCaseComponentName}}</p>\n\\{{#if withStyles}}';
+      expect(await renderTemplate(input, context)).toBe(
+        '<p>{{ PascalCaseComponentName }} MyComponent</p>\n{{#if withStyles}}',
+      );
+    });
+
+    describe('filters', () => {
+      const filterContext = { name: 'my-component', props: ['label'] };
+
+      it('should apply case and string filters in order', async () => {
+        expect(await renderTemplate('{{ name | kebab | upper }}', filterContext)).toBe(
+          'MY-COMPONENT',
+        );
+        expect(await renderTemplate('{{ name | pascal | suffix:"Props" }}', filterContext)).toBe(
+          'MyComponentProps',
+        );
+        expect(await renderTemplate("{{ name | constant | prefix:'SET_' }}", filterContext)).toBe(
+          'SET_MY_COMPONENT',
+        );
+        expect(await renderTemplate('{{ name | replace:"-","/" | lower }}', filterContext)).toBe(
+          'my/component',
+        );
+      });
+
+      it('should apply filters to values inside each', async () => {
+        expect(
+          await renderTemplate(
+            '{{#each props}}{{ this | pascal | prefix:"on" }}{{/each}}',
+            filterContext,
+          ),
+        ).toBe('onLabel');
+      });
+
+      it('should pluralize and singularize values', async () => {
+        expect(await renderTemplate('{{ name | plural | camel }}', { name: 'UserProfile' })).toBe(
+          'userProfiles',
+        );
+        expect(await renderTemplate('{{ name | singular }}', { name: 'Categories' })).toBe(
+          'Category',
+        );
+        expect(
+          await renderTemplate(
+            '{{ name | plural }}',
+            { name: 'Cactus' },
+            { irregularPlurals: { cactus: 'cacti' } },
+          ),
+        ).toBe('Cacti');
+      });
+
+      it('should use default for missing values', async () => {
+        expect(await renderTemplate('{{ owningTeam | default:"core" }}', filterContext)).toBe(
+          'core',
+        );
+      });
+
+      it('should leave unresolved pipelines and JSX expressions untouched', async () => {
+        const input = '{{ missing | kebab }} {{ a || b }}';
+        expect(await renderTemplate(input, filterContext)).toBe(input);
+      });
+
+      it('should leave tags with unknown filters untouched', async () => {
+        const input = '{{ name | shout }} {{ date | date:"short" }}';
+        expect(await renderTemplate(input, { ...filterContext, date: '2024-01-01' })).toBe(input);
+      });
+
+      it('should throw when a value cannot be converted to a case', async () => {
+        await expect(
+          renderTemplate('{{ name | suffix:" x" | pascal }}', filterContext),
+        ).rejects.toThrow('Cannot convert "my-component x" to pascal case');
+      });
+    });
+
+    it('should throw on unbalanced blocks', async () => {
+      await expect(renderTemplate('{{#if withStyles}}x', context)).rejects.toThrow(
+        'Unclosed {{#if}} block',
+      );
+      await expect(renderTemplate('{{#if withStyles}}x{{/each}}', context)).rejects.toThrow(
+        'Expected {{/if}} but found {{/each}}',
+      );
+      await expect(renderTemplate('x{{else}}y', context)).rejects.toThrow(
+        'Unexpected {{else}} outside of a block',
+      );
+    });
+  });
+});
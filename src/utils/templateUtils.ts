@@ -0,0 +1,484 @@
+import { CASE_TYPES, CaseType, pluralize, singularize, transform } from './caseUtils';
+
+export type TemplateContext = Record<string, unknown>;
+
+export interface RenderOptions {
+  // Loads the raw content of a partial referenced with {{> name}}
+  resolvePartial?: (name: string) => Promise<string>;
+  // Extra singular -> plural pairs used by the plural and singular filters
+  irregularPlurals?: Record<string, string>;
+}
+
+type TagKind = 'variable' | 'open' | 'else' | 'close' | 'partial' | 'comment';
+
+type Token =
+  | { type: 'text'; value: string }
+  | { type: 'tag'; kind: TagKind; raw: string; name: string; expression: string };
+
+type TemplateNode =
+  | { type: 'text'; value: string }
+  | { type: 'variable'; raw: string; expression: string }
+  | { type: 'partial'; name: string }
+  | {
+      type: 'block';
+      name: 'if' | 'unless' | 'each';
+      expression: string;
+      body: TemplateNode[];
+      inverse: TemplateNode[];
+    };
+
+const TAG_PATTERN = /\{\{([\s\S]*?)\}\}/g;
+const PATH_PATTERN = /^(this|@?[A-Za-z_$][\w$-]*)(\.[A-Za-z_$][\w$-]*)*$/;
+const BLOCK_NAMES = ['if', 'unless', 'each'];
+const MAX_PARTIAL_DEPTH = 10;
+
+// Classify the inside of a {{ }} pair. Anything we don't recognise stays literal text, so
+// templates containing e.g. JSX style objects (style={{ color: 'red' }}) pass through untouched.
+function classifyTag(raw: string, content: string): Token {
+  const trimmed = content.trim();
+
+  const open = trimmed.match(/^#(\w+)\s+([\s\S]+)$/);
+  if (open && BLOCK_NAMES.includes(open[1])) {
+    return { type: 'tag', kind: 'open', raw, name: open[1], expression: open[2].trim() };
+  }
+
+  const close = trimmed.match(/^\/(\w+)$/);
+  if (close && BLOCK_NAMES.includes(close[1])) {
+    return { type: 'tag', kind: 'close', raw, name: close[1], expression: '' };
+  }
+
+  if (trimmed === 'else') {
+    return { type: 'tag', kind: 'else', raw, name: 'else', expression: '' };
+  }
+
+  const partial = trimmed.match(/^>\s*(?:"([^"]+)"|'([^']+)'|(\S+))$/);
+  if (partial) {
+    const name = partial[1] ?? partial[2] ?? partial[3];
+    return { type: 'tag', kind: 'partial', raw, name, expression: '' };
+  }
+
+  if (trimmed.startsWith('!')) {
+    return { type: 'tag', kind: 'comment', raw, name: '', expression: '' };
+  }
+
+  return { type: 'tag', kind: 'variable', raw, name: '', expression: trimmed };
+}
+
+function tokenize(template: string): Token[] {
+  const tokens: Token[] = [];
+  let lastIndex = 0;
+
+  for (const match of template.matchAll(TAG_PATTERN)) {
+    // \{{ ... }} is written out as {{ ... }}, e.g. for Vue or Angular interpolation
+    const escaped = template[match.index - 1] === '\\';
+    const textEnd = escaped ? match.index - 1 : match.index;
+    if (textEnd > lastIndex) {
+      tokens.push({ type: 'text', value: template.slice(lastIndex, textEnd) });
+    }
+    tokens.push(escaped ? { type: 'text', value: match[0] } : classifyTag(match[0], match[1]));
+    lastIndex = match.index + match[0].length;
+  }
+
+  if (lastIndex < template.length) {
+    tokens.push({ type: 'text', value: template.slice(lastIndex) });
+  }
+
+  return stripStandaloneLines(tokens);
+}
+
+// Block, partial and comment tags that sit alone on a line should not leave an empty line behind
+function stripStandaloneLines(tokens: Token[]): Token[] {
+  // Work out every trim against the original text first, so adjacent block tags don't interfere
+  const trims = new Map<number, { start: number; end: number }>();
+  const getTrim = (index: number) => {
+    const trim = trims.get(index) ?? { start: 0, end: 0 };
+    trims.set(index, trim);
+    return trim;
+  };
+  const textAt = (index: number): string | null => {
+    const token = tokens[index];
+    if (!token) {
+      return '';
+    }
+    return token.type === 'text' ? token.value : null;
+  };
+
+  tokens.forEach((token, index) => {
+    if (token.type !== 'tag' || token.kind === 'variable') {
+      return;
+    }
+
+    const previousText = textAt(index - 1);
+    const nextText = textAt(index + 1);
+    if (previousText === null || nextText === null) {
+      return;
+    }
+
+    // Only the very start or end of the template counts as a line boundary without a newline
+    const atStart = index - 1 <= 0;
+    const atEnd = index + 1 >= tokens.length - 1;
+    const leading = previousText.match(atStart ? /(^|\n)[ \t]*$/ : /(\n)[ \t]*$/);
+    const trailing = nextText.match(atEnd ? /^[ \t]*(\r?\n|$)/ : /^[ \t]*(\r?\n)/);
+    if (!leading || !trailing) {
+      return;
+    }
+
+    if (tokens[index - 1]) {
+      getTrim(index - 1).end = leading[0].length - leading[1].length;
+    }
+    if (tokens[index + 1]) {
+      getTrim(index + 1).start = trailing[0].length;
+    }
+  });
+
+  return tokens.map((token, index) => {
+    const trim = trims.get(index);
+    if (!trim || token.type !== 'text') {
+      return token;
+    }
+    const end = Math.max(trim.start, token.value.length - trim.end);
+    return { type: 'text', value: token.value.slice(trim.start, end) };
+  });
+}
+
+function parse(tokens: Token[]): TemplateNode[] {
+  let position = 0;
+
+  function parseNodes(closingName?: string): { nodes: TemplateNode[]; endedWithElse: boolean } {
+    const nodes: TemplateNode[] = [];
+
+    while (position < tokens.length) {
+      const token = tokens[position++];
+
+      if (token.type === 'text') {
+        nodes.push({ type: 'text', value: token.value });
+        continue;
+      }
+
+      switch (token.kind) {
+        case 'comment':
+          break;
+
+        case 'variable':
+          nodes.push({ type: 'variable', raw: token.raw, expression: token.expression });
+          break;
+
+        case 'partial':
+          nodes.push({ type: 'partial', name: token.name });
+          break;
+
+        case 'open': {
+          const name = token.name as 'if' | 'unless' | 'each';
+          const body = parseNodes(name);
+          const inverse = body.endedWithElse ? parseNodes(name).nodes : [];
+          nodes.push({
+            type: 'block',
+            name,
+            expression: token.expression,
+            body: body.nodes,
+            inverse,
+          });
+          break;
+        }
+
+        case 'else':
+          if (!closingName) {
+            throw new Error('Unexpected {{else}} outside of a block');
+          }
+          return { nodes, endedWithElse: true };
+
+        case 'close':
+          if (token.name !== closingName) {
+            throw new Error(
+              closingName ?
+                `Expected {{/${closingName}}} but found {{/${token.name}}}`
+              : `Unexpected {{/${token.name}}} without matching {{#${token.name}}}`,
+            );
+          }
+          return { nodes, endedWithElse: false };
+      }
+    }
+
+    if (closingName) {
+      throw new Error(`Unclosed {{#${closingName}}} block`);
+    }
+    return { nodes, endedWithElse: false };
+  }
+
+  return parseNodes().nodes;
+}
+
+// Innermost scope first; each scope is the context object or the current {{#each}} item
+type Scope = { value: unknown; locals: Record<string, unknown> };
+
+function lookup(expression: string, scopes: Scope[]): unknown {
+  for (const scope of scopes) {
+    if (Object.hasOwn(scope.locals, expression)) {
+      return scope.locals[expression];
+    }
+    // Literal keys win, so token names that contain dots or dashes still resolve
+    if (isRecord(scope.value) && Object.hasOwn(scope.value, expression)) {
+      return scope.value[expression];
+    }
+  }
+
+  if (!PATH_PATTERN.test(expression)) {
+    return undefined;
+  }
+
+  const [head, ...rest] = expression.split('.');
+  let value: unknown;
+
+  if (head === 'this') {
+    value = scopes[0].value;
+  } else {
+    const scope = scopes.find(
+      (s) => Object.hasOwn(s.locals, head) || (isRecord(s.value) && Object.hasOwn(s.value, head)),
+    );
+    if (!scope) {
+      return undefined;
+    }
+    value =
+      Object.hasOwn(scope.locals, head) ?
+        scope.locals[head]
+      : (scope.value as Record<string, unknown>)[head];
+  }
+
+  for (const key of rest) {
+    if (!isRecord(value) || !Object.hasOwn(value, key)) {
+      return undefined;
+    }
+    value = value[key];
+  }
+
+  return value;
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null;
+}
+
+type Filter = (value: unknown, args: string[], options: RenderOptions) => unknown;
+
+// Applies a string operation, passing missing values through so {{ missing | upper }} stays literal
+const stringFilter =
+  (fn: (value: string, args: string[], options: RenderOptions) => string): Filter =>
+  (value, args, options) =>
+    value === undefined || value === null ? value : fn(String(value), args, options);
+
+const caseFilter = (caseType: CaseType): Filter =>
+  stringFilter((value) => {
+    const transformed = transform(value, caseType);
+    if (transformed === null) {
+      throw new Error(`Cannot convert "${value}" to ${caseType} case`);
+    }
+    return transformed;
+  });
+
+const FILTERS: Record<string, Filter> = {
+  ...Object.fromEntries(CASE_TYPES.map((caseType) => [caseType, caseFilter(caseType)])),
+  plural: stringFilter(
+    (value, _args, { irregularPlurals }) => pluralize(value, irregularPlurals) ?? value,
+  ),
+  singular: stringFilter(
+    (value, _args, { irregularPlurals }) => singularize(value, irregularPlurals) ?? value,
+  ),
+  upper: stringFilter((value) => value.toUpperCase()),
+  lower: stringFilter((value) => value.toLowerCase()),
+  prefix: stringFilter((value, [prefix = '']) => prefix + value),
+  suffix: stringFilter((value, [suffix = '']) => value + suffix),
+  replace: stringFilter((value, [search = '', replacement = '']) =>
+    value.replaceAll(search, replacement),
+  ),
+  default: (value, [fallback = '']) =>
+    value === undefined || value === null || value === '' ? fallback : value,
+};
+
+export const FILTER_NAMES = Object.keys(FILTERS);
+
+// Apply a single filter by name, e.g. for engines that expose filters as helpers
+export function applyFilter(
+  name: string,
+  value: unknown,
+  args: string[],
+  options: RenderOptions = {},
+): unknown {
+  const filter = FILTERS[name];
+  if (!filter) {
+    throw new Error(`Unknown filter "${name}"`);
+  }
+  return filter(value, args, options);
+}
+
+type FilterCall = { name: string; args: string[] };
+type Expression = { path: string; filters: FilterCall[] };
+
+// Split on a separator, ignoring separators inside single or double quotes
+function splitOutsideQuotes(input: string, separator: string): string[] {
+  const parts: string[] = [];
+  let current = '';
+  let quote: string | null = null;
+
+  for (const char of input) {
+    if (quote) {
+      quote = char === quote ? null : quote;
+    } else if (char === '"' || char === "'") {
+      quote = char;
+    } else if (char === separator) {
+      parts.push(current);
+      current = '';
+      continue;
+    }
+    current += char;
+  }
+
+  parts.push(current);
+  return parts;
+}
+
+function parseArgument(source: string): string {
+  const trimmed = source.trim();
+  const quoted = trimmed.match(/^(["'])([\s\S]*)\1$/);
+  return quoted ? quoted[2] : trimmed;
+}
+
+// Parse "path | filter | filter:arg,arg". Returns null for anything that isn't a pipeline,
+// such as the "||" in a JSX expression.
+function parseExpression(source: string): Expression | null {
+  const [path, ...segments] = splitOutsideQuotes(source, '|');
+  const filters: FilterCall[] = [];
+
+  for (const segment of segments) {
+    const match = segment.trim().match(/^([A-Za-z_]\w*)(?:\s*:([\s\S]+))?$/);
+    if (!match) {
+      return null;
+    }
+    const args = match[2] ? splitOutsideQuotes(match[2], ',').map(parseArgument) : [];
+    filters.push({ name: match[1], args });
+  }
+
+  return { path: path.trim(), filters };
+}
+
+function evaluate(source: string, scopes: Scope[], options: RenderOptions): unknown {
+  const expression = parseExpression(source);
+  if (!expression) {
+    return undefined;
+  }
+
+  let value = lookup(expression.path, scopes);
+
+  // Unresolved values stay unresolved unless a default is supplied
+  if (value === undefined && !expression.filters.some((filter) => filter.name === 'default')) {
+    return undefined;
+  }
+
+  // Unknown filters are left as written too, e.g. a {{ date | date:"short" }} meant for
+  // another tool
+  if (expression.filters.some(({ name }) => !FILTERS[name])) {
+    return undefined;
+  }
+
+  for (const { name, args } of expression.filters) {
+    value = FILTERS[name](value, args, options);
+  }
+
+  return value;
+}
+
+function isTruthy(value: unknown): boolean {
+  if (Array.isArray(value)) {
+    return value.length > 0;
+  }
+  return Boolean(value);
+}
+
+async function renderNodes(
+  nodes: TemplateNode[],
+  scopes: Scope[],
+  options: RenderOptions,
+  depth: number,
+): Promise<string> {
+  let output = '';
+
+  for (const node of nodes) {
+    switch (node.type) {
+      case 'text':
+        output += node.value;
+        break;
+
+      case 'variable': {
+        const value = evaluate(node.expression, scopes, options);
+        // Unknown variables are left as written, matching the old token replacement
+        output += value === undefined || value === null ? node.raw : String(value);
+        break;
+      }
+
+      case 'partial': {
+        if (!options.resolvePartial) {
+          throw new Error(`Cannot render partial "${node.name}": no partial resolver available`);
+        }
+        if (depth >= MAX_PARTIAL_DEPTH) {
+          throw new Error(`Partial "${node.name}" exceeds the maximum nesting depth`);
+        }
+        const partial = await options.resolvePartial(node.name);
+        output += await renderNodes(parse(tokenize(partial)), scopes, options, depth + 1);
+        break;
+      }
+
+      case 'block': {
+        const value = evaluate(node.expression, scopes, options);
+
+        if (node.name === 'each') {
+          const entries: [string | number, unknown][] =
+            Array.isArray(value) ? value.map((item, index) => [index, item])
+            : isRecord(value) ? Object.entries(value)
+            : [];
+
+          if (entries.length === 0) {
+            output += await renderNodes(node.inverse, scopes, options, depth);
+            break;
+          }
+
+          for (const [index, [key, item]] of entries.entries()) {
+            const locals = {
+              '@index': index,
+              '@key': key,
+              '@first': index === 0,
+              '@last': index === entries.length - 1,
+            };
+            output += await renderNodes(
+              node.body,
+              [{ value: item, locals }, ...scopes],
+              options,
+              depth,
+            );
+          }
+          break;
+        }
+
+        const condition = node.name === 'unless' ? !isTruthy(value) : isTruthy(value);
+        output += await renderNodes(condition ? node.body : node.inverse, scopes, options, depth);
+        break;
+      }
+    }
+  }
+
+  return output;
+}
+
+/**
+ * Render a template against a context object. Supports {{variable}} output,
+ * {{#if}}/{{#unless}}/{{else}}, {{#each}} (with @index, @key, @first, @last and this),
+ * {{> partial}} and {{! comments}}. Values can be piped through filters, e.g.
+ * {{ name | kebab | upper }} or {{ name | pascal | suffix:"Props" }}. A tag preceded by a
+ * backslash, \{{ name }}, is output as written without the backslash.
+ */
+export async function renderTemplate(
+  template: string,
+  context: TemplateContext,
+  options: RenderOptions = {},
+): Promise<string> {
+  const nodes = parse(tokenize(template));
+  return renderNodes(nodes, [{ value: context, locals: {} }], options, 0);
+}
@@ -0,0 +1,95 @@
+import * as vscode from 'vscode';
+import { getVariableDefaults, promptForVariables } from './variableUtils';
+
+describe('variableUtils', () => {
+  describe('promptForVariables', () => {
+    it('should return an empty object when no variables are configured', async () => {
+      expect(await promptForVariables(undefined)).toEqual({});
+      expect(vscode.window.showInputBox).not.toHaveBeenCalled();
+      expect(vscode.window.showQuickPick).not.toHaveBeenCalled();
+    });
+
+    it('should prompt for each variable type in order', async () => {
+      (vscode.window.showInputBox as jest.Mock).mockResolvedValueOnce('design-system');
+      (vscode.window.showQuickPick as jest.Mock)
+        .mockResolvedValueOnce({ label: 'Yes', value: true })
+        .mockResolvedValueOnce('client')
+        .mockResolvedValueOnce([
+          { label: 'label', value: 'label' },
+          { label: 'onClick', value: 'onClick' },
+        ]);
+
+      const result = await promptForVariables([
+        { name: 'owningTeam', type: 'string', prompt: 'Owning team', default: 'core' },
+        { name: 'withStyles', type: 'boolean' },
+        { name: 'kind', type: 'enum', options: ['server', 'client'], default: 'client' },
+        {
+          name: 'props',
+          type: 'multiSelect',
+          options: ['label', 'onClick', 'disabled'],
+          default: ['label'],
+        },
+      ]);
+
+      expect(result).toEqual({
+        owningTeam: 'design-system',
+        withStyles: true,
+        kind: 'client',
+        props: ['label', 'onClick'],
+      });
+
+      expect(vscode.window.showInputBox).toHaveBeenCalledWith({
+        prompt: 'Owning team',
+        value: 'core',
+      });
+
+      const quickPickCalls = (vscode.window.showQuickPick as jest.Mock).mock.calls;
+      expect(quickPickCalls[1][0]).toEqual(['client', 'server']);
+      expect(quickPickCalls[2][0]).toEqual([
+        { label: 'label', value: 'label', picked: true },
+        { label: 'onClick', value: 'onClick', picked: false },
+        { label: 'disabled', value: 'disabled', picked: false },
+      ]);
+      expect(quickPickCalls[2][1]).toEqual(expect.objectContaining({ canPickMany: true }));
+    });
+
+    it('should offer the default boolean answer first', async () => {
+      (vscode.window.showQuickPick as jest.Mock).mockResolvedValueOnce({
+        label: 'No',
+        value: false,
+      });
+
+      const result = await promptForVariables([
+        { name: 'isClient', type: 'boolean', default: false },
+      ]);
+
+      expect(result).toEqual({ isClient: false });
+      const items = (vscode.window.showQuickPick as jest.Mock).mock.calls[0][0];
+      expect(items[0]).toEqual({ label: 'No', value: false });
+    });
+
+    it('should return undefined when a prompt is cancelled', async () => {
+      (vscode.window.showInputBox as jest.Mock).mockResolvedValueOnce(undefined);
+
+      const result = await promptForVariables([
+        { name: 'owningTeam', type: 'string' },
+        { name: 'withStyles', type: 'boolean' },
+      ]);
+
+      expect(result).toBeUndefined();
+      expect(vscode.window.showQuickPick).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('getVariableDefaults', () => {
+    it('should return the default of each variable that has one', () => {
+      expect(
+        getVariableDefaults([
+          { name: 'owningTeam', type: 'string', default: 'core' },
+          { name: 'withStyles', type: 'boolean', default: false },
+          { name: 'kind', type: 'enum', options: ['server', 'client'] },
+        ]),
+      ).toEqual({ owningTeam: 'core', withStyles: false });
+    });
+  });
+});
@@ -0,0 +1,111 @@
+import * as vscode from 'vscode';
+import { TemplateVariable } from './configurationUtils';
+import { TemplateContext } from './templateUtils';
+
+interface QuickPickValueItem<T> extends vscode.QuickPickItem {
+  value: T;
+}
+
+function getPrompt(variable: TemplateVariable): string {
+  return variable.prompt ?? variable.name;
+}
+
+async function promptForString(variable: TemplateVariable): Promise<string | undefined> {
+  return vscode.window.showInputBox({
+    prompt: getPrompt(variable),
+    value: typeof variable.default === 'string' ? variable.default : '',
+  });
+}
+
+async function promptForBoolean(variable: TemplateVariable): Promise<boolean | undefined> {
+  const items: QuickPickValueItem<boolean>[] = [
+    { label: 'Yes', value: true },
+    { label: 'No', value: false },
+  ];
+
+  // Put the default answer first so Enter accepts it
+  if (variable.default === false) {
+    items.reverse();
+  }
+
+  const selected = await vscode.window.showQuickPick(items, {
+    placeHolder: getPrompt(variable),
+    title: variable.name,
+  });
+  return selected?.value;
+}
+
+async function promptForEnum(variable: TemplateVariable): Promise<string | undefined> {
+  const options = variable.options ?? [];
+  const items = [...options].sort((a, b) =>
+    a === variable.default ? -1
+    : b === variable.default ? 1
+    : 0,
+  );
+
+  return vscode.window.showQuickPick(items, {
+    placeHolder: getPrompt(variable),
+    title: variable.name,
+  });
+}
+
+async function promptForMultiSelect(variable: TemplateVariable): Promise<string[] | undefined> {
+  const defaults = Array.isArray(variable.default) ? variable.default : [];
+  const items: QuickPickValueItem<string>[] = (variable.options ?? []).map((option) => ({
+    label: option,
+    value: option,
+    picked: defaults.includes(option),
+  }));
+
+  const selected = await vscode.window.showQuickPick(items, {
+    placeHolder: getPrompt(variable),
+    title: variable.name,
+    canPickMany: true,
+  });
+  return selected?.map((item) => item.value);
+}
+
+/**
+ * Ask the user for a value for each configured template variable, in order.
+ * Returns undefined if any prompt is cancelled.
+ */
+export async function promptForVariables(
+  variables: TemplateVariable[] = [],
+): Promise<TemplateContext | undefined> {
+  const values: TemplateContext = {};
+
+  for (const variable of variables) {
+    let value: unknown;
+
+    switch (variable.type) {
+      case 'string':
+        value = await promptForString(variable);
+        break;
+      case 'boolean':
+        value = await promptForBoolean(variable);
+        break;
+      case 'enum':
+        value = await promptForEnum(variable);
+        break;
+      case 'multiSelect':
+        value = await promptForMultiSelect(variable);
+        break;
+    }
+
+    if (value === undefined || value === null) {
+      return undefined;
+    }
+    values[variable.name] = value;
+  }
+
+  return values;
+}
+
+// Default values of the configured template variables, for generating without prompting
+export function getVariableDefaults(variables: TemplateVariable[] = []): TemplateContext {
+  return Object.fromEntries(
+    variables
+      .filter((variable) => variable.default !== undefined)
+      .map((variable) => [variable.name, variable.default]),
+  );
+}